@@ -0,0 +1,42 @@
+import path from 'path';
+import { generateEntityTypes, type CodegenFormat } from '../src/codegen.js';
+import { getClients } from '../src/slingr-client.js';
+
+// Usage: npx tsx scripts/generate-types.ts [--entity <name>]... [--out <dir>] [--env <environment>] [--format typescript|jsonschema]
+function parseArgs(argv: string[]) {
+  const options = { entities: [] as string[], outputDir: 'generated', environment: undefined as string | undefined, formats: [] as CodegenFormat[] };
+  for (let i = 0; i < argv.length; i++) {
+    const value = argv[i + 1];
+    switch (argv[i]) {
+      case '--entity': options.entities.push(value); i++; break;
+      case '--out': options.outputDir = value; i++; break;
+      case '--env': options.environment = value; i++; break;
+      case '--format':
+        if (value !== 'typescript' && value !== 'jsonschema') throw new Error(`Unknown format '${value}'.`);
+        options.formats.push(value);
+        i++;
+        break;
+      default: throw new Error(`Unknown argument '${argv[i]}'.`);
+    }
+  }
+  return options;
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+  const { builderClient, environment } = getClients(options.environment);
+  console.log(`🧬 Generating types from environment '${environment}'...`);
+
+  const summary = await generateEntityTypes(builderClient, {
+    entities: options.entities.length > 0 ? options.entities : undefined,
+    outputDir: path.resolve(options.outputDir),
+    formats: options.formats.length > 0 ? options.formats : ['typescript', 'jsonschema'],
+  });
+
+  console.log(`✅ ${summary.files.length} files written for ${summary.entities.length} entities in ${path.resolve(options.outputDir)}`);
+}
+
+main().catch((error) => {
+  console.error(error.message);
+  process.exit(1);
+});
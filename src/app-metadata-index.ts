@@ -0,0 +1,358 @@
+import type { AxiosInstance } from "axios";
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { mapWithConcurrency } from "./concurrency.js";
+import {
+    connectVectorStore,
+    createVectorTable,
+    DB_PATH,
+    embeddingFingerprint,
+    embeddingMismatch,
+    embedText,
+    matchesCurrentEmbeddings,
+    type EmbeddingFingerprint,
+} from "./embeddings.js";
+import { labelText } from "./field-types.js";
+import { fetchEntities, fetchEntityMetadata, type EntitySummary } from "./metadata.js";
+import { onMetadataChange } from "./metadata-cache.js";
+import { ensureFullTextIndex, hybridSearch, sqlString } from "./retrieval.js";
+
+export const APP_METADATA_KINDS = ['entity', 'field', 'action', 'script'] as const;
+export type AppMetadataKind = typeof APP_METADATA_KINDS[number];
+
+// Script bodies can be long; the start is usually enough to find them
+const MAX_SCRIPT_CHARS = 2000;
+
+interface AppMetadataDocument {
+    text: string;
+    kind: AppMetadataKind;
+    entityId: string;
+    entity: string;
+    /** Field or action name, or the metadata path of a script; the entity name for entities. */
+    name: string;
+    label: string;
+    /** The entity's folder path. */
+    path: string;
+}
+
+type AppMetadataRow = AppMetadataDocument & { vector: number[] };
+
+export interface AppMetadataHit extends AppMetadataDocument {
+    score: number;
+    /** Cosine similarity of the query and hit embeddings (0-1), which minScore applies to. */
+    relevance: number;
+}
+
+interface AppIndexManifest extends EmbeddingFingerprint {
+    includeScripts: boolean;
+    /** Entity ID -> its name and the hash of the documents indexed for it. */
+    entities: Record<string, { name: string, hash: string }>;
+}
+
+export interface AppIndexSummary {
+    environment: string;
+    full: boolean;
+    entities: number;
+    added: string[];
+    updated: string[];
+    removed: string[];
+    unchanged: number;
+    /** Documents embedded in this refresh. */
+    documents: number;
+}
+
+export interface RefreshOptions {
+    full?: boolean;
+    includeScripts?: boolean;
+}
+
+export interface AppMetadataSearchOptions {
+    limit: number;
+    kind?: AppMetadataKind;
+    /** Only hits of this entity (name). */
+    entity?: string;
+    minScore?: number;
+}
+
+// Environments whose index matches the metadata; any change through the builder API drops them
+const freshEnvironments = new Set<string>();
+// The latest refresh started or queued per environment, with the options it runs with
+const refreshing = new Map<string, { options: RefreshOptions, done: Promise<AppIndexSummary> }>();
+// Bumped on every change, so a refresh that overlapped one doesn't mark the index fresh
+let changeGeneration = 0;
+
+onMetadataChange(environment => {
+    changeGeneration++;
+    if (environment) {
+        freshEnvironments.delete(environment);
+    } else {
+        freshEnvironments.clear();
+    }
+});
+
+// Table names only allow [A-Za-z0-9_], so a hash keeps e.g. 'a-b' and 'a_b' apart
+function storageName(environment: string): string {
+    const hash = crypto.createHash('sha256').update(environment).digest('hex').slice(0, 8);
+    return `app_metadata_${environment.replace(/[^A-Za-z0-9_]/g, '_')}_${hash}`;
+}
+
+/** Whether a refresh with `running` options also does everything `requested` asks for. */
+function coversRefresh(running: RefreshOptions, requested: RefreshOptions): boolean {
+    return (!requested.full || !!running.full) &&
+        (requested.includeScripts === undefined || requested.includeScripts === running.includeScripts);
+}
+
+function manifestFile(environment: string): string {
+    return path.join(DB_PATH, `${storageName(environment)}-manifest.json`);
+}
+
+function readManifest(environment: string): AppIndexManifest | undefined {
+    try {
+        return JSON.parse(fs.readFileSync(manifestFile(environment), 'utf-8'));
+    } catch {
+        return undefined;
+    }
+}
+
+function writeManifest(environment: string, manifest: AppIndexManifest) {
+    fs.mkdirSync(DB_PATH, { recursive: true });
+    fs.writeFileSync(manifestFile(environment), JSON.stringify(manifest, null, 2), 'utf-8');
+}
+
+/** Every non-empty `*script` property in the entity metadata, with a readable path to it. */
+function collectScripts(node: any, trail: string[], out: { path: string, body: string }[]) {
+    if (Array.isArray(node)) {
+        node.forEach((child, i) => collectScripts(child, [...trail.slice(0, -1), `${trail[trail.length - 1] ?? ''}[${child?.name ?? i}]`], out));
+        return;
+    }
+    if (!node || typeof node !== 'object') return;
+    for (const [key, value] of Object.entries(node)) {
+        if (typeof value === 'string' && /script$/i.test(key) && value.trim()) {
+            out.push({ path: [...trail, key].join('.'), body: value });
+        } else if (value && typeof value === 'object') {
+            collectScripts(value, [...trail, key], out);
+        }
+    }
+}
+
+/** The searchable descriptions of one entity: itself, its fields, its actions and optionally its scripts. */
+function entityDocuments(entity: EntitySummary, metadata: any, namesById: Map<string, string>, includeScripts: boolean): AppMetadataDocument[] {
+    const entityLabel = labelText(metadata.label) || entity.label || entity.name;
+    const base = { entityId: entity.id, entity: entity.name, path: entity.fullPath || '' };
+    const fields: any[] = metadata.fields || [];
+    const actions: any[] = metadata.actions || [];
+
+    const documents: AppMetadataDocument[] = [{
+        ...base,
+        kind: 'entity',
+        name: entity.name,
+        label: entityLabel,
+        text: `Entity "${entityLabel}" (${entity.name})${entity.fullPath ? ` in folder ${entity.fullPath}` : ''}. ` +
+            `Fields: ${fields.map(f => labelText(f.label) || f.name).join(', ') || 'none'}.` +
+            (actions.length > 0 ? ` Actions: ${actions.map(a => labelText(a.label) || a.name).join(', ')}.` : ''),
+    }];
+
+    for (const field of fields) {
+        const label = labelText(field.label) || field.name;
+        const details = [String(field.type || 'UNKNOWN')];
+        if (field.multiplicity === 'MANY') details.push('multiple values');
+        if (field.typeRules?.entityId) details.push(`references entity ${namesById.get(field.typeRules.entityId) ?? field.typeRules.entityLabel ?? field.typeRules.entityId}`);
+        if (Array.isArray(field.typeRules?.values)) details.push(`options ${field.typeRules.values.map((v: any) => labelText(v.label) || v.name).join(', ')}`);
+        if (field.generalRules?.required?.type === 'ALWAYS' || field.required === true) details.push('required');
+        documents.push({
+            ...base,
+            kind: 'field',
+            name: field.name,
+            label,
+            text: `Field "${label}" (${field.name}) of entity "${entityLabel}" (${entity.name}): ${details.join(', ')}.`,
+        });
+    }
+
+    for (const action of actions) {
+        const label = labelText(action.label) || action.name;
+        documents.push({
+            ...base,
+            kind: 'action',
+            name: action.name,
+            label,
+            text: `Action "${label}" (${action.name}) of entity "${entityLabel}" (${entity.name}).`,
+        });
+    }
+
+    if (includeScripts) {
+        const scripts: { path: string, body: string }[] = [];
+        collectScripts(metadata, [], scripts);
+        for (const script of scripts) {
+            documents.push({
+                ...base,
+                kind: 'script',
+                name: script.path,
+                label: script.path,
+                text: `Script ${script.path} of entity "${entityLabel}" (${entity.name}):\n${script.body.slice(0, MAX_SCRIPT_CHARS)}`,
+            });
+        }
+    }
+    return documents;
+}
+
+async function embedDocuments(documents: AppMetadataDocument[]): Promise<AppMetadataRow[]> {
+    const rows: AppMetadataRow[] = [];
+    for (const document of documents) {
+        rows.push({ ...document, vector: await embedText(document.text, 'passage') });
+    }
+    return rows;
+}
+
+async function rebuildIndex(environment: string, builderClient: AxiosInstance, options: RefreshOptions): Promise<AppIndexSummary> {
+    const generation = changeGeneration;
+    const db = await connectVectorStore();
+    const table = storageName(environment);
+    const manifest = readManifest(environment);
+    const includeScripts = options.includeScripts ?? manifest?.includeScripts ?? false;
+    const tableExists = (await db.tableNames()).includes(table);
+    // A different embedding setup can't be mixed into the table, so it is rebuilt instead
+    const full = !!options.full || !tableExists || !manifest ||
+        !(await matchesCurrentEmbeddings(manifest)) || manifest.includeScripts !== includeScripts;
+    const previous = full ? {} : manifest!.entities;
+
+    const entities = await fetchEntities(builderClient);
+    const namesById = new Map(entities.map(e => [e.id, e.name]));
+    const metadataList = await mapWithConcurrency(entities, 4, e => fetchEntityMetadata(builderClient, e.id));
+
+    const summary: AppIndexSummary = { environment, full, entities: entities.length, added: [], updated: [], removed: [], unchanged: 0, documents: 0 };
+    const indexed: AppIndexManifest['entities'] = {};
+    const pending: AppMetadataDocument[] = [];
+    const staleIds: string[] = [];
+    entities.forEach((entity, i) => {
+        const documents = entityDocuments(entity, metadataList[i], namesById, includeScripts);
+        const hash = crypto.createHash('sha256').update(JSON.stringify(documents)).digest('hex');
+        indexed[entity.id] = { name: entity.name, hash };
+        if (!previous[entity.id]) {
+            summary.added.push(entity.name);
+        } else if (previous[entity.id].hash !== hash) {
+            summary.updated.push(entity.name);
+            staleIds.push(entity.id);
+        } else {
+            summary.unchanged++;
+            return;
+        }
+        pending.push(...documents);
+    });
+    const removedIds = Object.keys(previous).filter(id => !indexed[id]);
+    summary.removed = removedIds.map(id => previous[id].name);
+    staleIds.push(...removedIds);
+
+    console.error(`🔎 Indexing ${pending.length} metadata documents of '${environment}'...`);
+    const rows = await embedDocuments(pending);
+    summary.documents = rows.length;
+
+    let lanceTable: any;
+    if (full) {
+        if (rows.length === 0) {
+            throw new Error(`Environment '${environment}' has no entities to index.`);
+        }
+        try {
+            await db.dropTable(table);
+        } catch (e) {
+            // Ignore if table doesn't exist
+        }
+        lanceTable = await createVectorTable(db, table, rows);
+    } else {
+        lanceTable = await db.openTable(table);
+        for (let i = 0; i < staleIds.length; i += 100) {
+            await lanceTable.delete(`entityId IN (${staleIds.slice(i, i + 100).map(sqlString).join(', ')})`);
+        }
+        if (rows.length > 0) await lanceTable.add(rows);
+    }
+    if (full || rows.length > 0 || staleIds.length > 0) {
+        await ensureFullTextIndex(lanceTable, true);
+    }
+
+    writeManifest(environment, { ...(await embeddingFingerprint()), includeScripts, entities: indexed });
+    if (generation === changeGeneration) freshEnvironments.add(environment);
+    return summary;
+}
+
+/**
+ * Brings the environment's metadata index up to date. Entities are compared by the hash
+ * of their indexed descriptions, so only added or changed ones are embedded again.
+ * `includeScripts` sticks for later refreshes until it is set again.
+ */
+export function refreshAppMetadataIndex(environment: string, builderClient: AxiosInstance, options: RefreshOptions = {}): Promise<AppIndexSummary> {
+    // Concurrent callers share a refresh that does what they ask for; other options are
+    // queued behind it instead of being dropped
+    const latest = refreshing.get(environment);
+    if (latest && coversRefresh(latest.options, options)) {
+        return latest.done;
+    }
+    const done: Promise<AppIndexSummary> = (latest ? latest.done.catch(() => undefined) : Promise.resolve())
+        .then(() => rebuildIndex(environment, builderClient, options))
+        .finally(() => {
+            if (refreshing.get(environment)?.done === done) refreshing.delete(environment);
+        });
+    refreshing.set(environment, { options, done });
+    return done;
+}
+
+/** Hybrid search over the environment's metadata index, refreshed first if the app changed since. */
+export async function searchAppMetadata(environment: string, builderClient: AxiosInstance, query: string, options: AppMetadataSearchOptions): Promise<AppMetadataHit[]> {
+    if (!freshEnvironments.has(environment)) {
+        await refreshAppMetadataIndex(environment, builderClient);
+    }
+
+    const db = await connectVectorStore();
+    const table = await db.openTable(storageName(environment));
+    // Refreshing rebuilds on a model change, so this only trips if the index was replaced meanwhile
+    const mismatch = await embeddingMismatch(table, readManifest(environment));
+    if (mismatch) {
+        throw new Error(`The metadata index of '${environment}' can't be searched: ${mismatch}. Rebuild it with refresh_app_metadata_index (full: true).`);
+    }
+    const filters = [
+        options.kind ? `kind = ${sqlString(options.kind)}` : undefined,
+        options.entity ? `entity = ${sqlString(options.entity)}` : undefined,
+    ].filter(Boolean);
+
+    const fused = await hybridSearch(table, {
+        vector: await embedText(query, 'query'),
+        text: query,
+        filter: filters.length > 0 ? filters.join(' AND ') : undefined,
+        candidates: Math.max(options.limit * 4, 20),
+        fullText: await ensureFullTextIndex(table),
+    }, (r: any) => `${r.kind}\u0000${r.entityId}\u0000${r.name}`);
+
+    return fused
+        .filter(({ similarity }) => options.minScore === undefined || similarity >= options.minScore)
+        .slice(0, options.limit)
+        .map(({ row, score, similarity }) => ({
+            text: row.text,
+            kind: row.kind,
+            entityId: row.entityId,
+            entity: row.entity,
+            name: row.name,
+            label: row.label,
+            path: row.path,
+            score,
+            relevance: similarity,
+        }));
+}
+
+export function renderAppMetadataHits(hits: AppMetadataHit[]): string {
+    if (hits.length === 0) return "No matching metadata found.";
+    return hits.map(hit => {
+        const target = hit.kind === 'entity' ? hit.entity : `${hit.entity}.${hit.name}`;
+        const text = hit.text.length > 400 ? `${hit.text.slice(0, 400)}...` : hit.text;
+        return `[${hit.kind}] ${target} (score ${hit.score.toFixed(2)}, relevance ${hit.relevance.toFixed(2)})\n${text}`;
+    }).join('\n\n');
+}
+
+export function renderAppIndexSummary(summary: AppIndexSummary): string {
+    const lines = [
+        `Metadata index of '${summary.environment}' ${summary.full ? 'rebuilt' : 'refreshed'}: ${summary.entities} entities, ` +
+        `${summary.added.length} added, ${summary.updated.length} updated, ${summary.removed.length} removed, ${summary.unchanged} unchanged; ` +
+        `${summary.documents} documents embedded.`,
+    ];
+    if (!summary.full && summary.updated.length > 0) lines.push(`Updated: ${summary.updated.join(', ')}`);
+    if (summary.removed.length > 0) lines.push(`Removed: ${summary.removed.join(', ')}`);
+    return lines.join('\n');
+}
@@ -0,0 +1,156 @@
+import axios from "axios";
+import fs from "fs";
+
+/**
+ * A source of Slingr API tokens. `getToken()` is called on startup and every time
+ * the API rejects the current token, so implementations should return a fresh one.
+ */
+export interface AuthProvider {
+    readonly name: string;
+    /** False when asking again can't produce a different token (e.g. a static token). */
+    readonly refreshable: boolean;
+    getToken(): Promise<string>;
+}
+
+/** Logs in with email and password against the builder auth endpoint. */
+export class PasswordAuthProvider implements AuthProvider {
+    readonly name = "password";
+    readonly refreshable = true;
+
+    constructor(private loginUrl: string, private email: string, private password: string) { }
+
+    async getToken(): Promise<string> {
+        try {
+            const response = await axios.post(this.loginUrl, {
+                email: this.email,
+                password: this.password
+            }, {
+                headers: {
+                    "Content-Type": "application/json"
+                }
+            });
+
+            const token = response.data?.token;
+            if (!token) {
+                throw new Error("Login response did not contain a token.");
+            }
+            return token;
+        } catch (error: any) {
+            const errorMsg = error.response
+                ? `Status: ${error.response.status}, Body: ${JSON.stringify(error.response.data)}`
+                : error.message;
+            throw new Error(`Failed to login to Slingr API: ${errorMsg}`);
+        }
+    }
+}
+
+/** Uses a pre-issued API token as-is. */
+export class StaticTokenAuthProvider implements AuthProvider {
+    readonly name = "token";
+    readonly refreshable = false;
+
+    constructor(private token: string) { }
+
+    async getToken(): Promise<string> {
+        return this.token;
+    }
+}
+
+/** Reads the token from a local file on every call, so an external process can rotate it. */
+export class FileTokenAuthProvider implements AuthProvider {
+    readonly name = "file";
+    readonly refreshable = true;
+
+    constructor(private filePath: string) { }
+
+    async getToken(): Promise<string> {
+        let token: string;
+        try {
+            token = (await fs.promises.readFile(this.filePath, "utf-8")).trim();
+        } catch (error: any) {
+            throw new Error(`Failed to read Slingr token file '${this.filePath}': ${error.message}`);
+        }
+        if (!token) {
+            throw new Error(`Slingr token file '${this.filePath}' is empty.`);
+        }
+        return token;
+    }
+}
+
+export interface AuthSettings {
+    provider?: string;
+    loginUrl: string;
+    email?: string;
+    password?: string;
+    token?: string;
+    tokenFile?: string;
+}
+
+/**
+ * The provider named in `settings.provider`, or the one inferred from which
+ * credentials are present: token file, then static token, then email/password.
+ */
+export function resolveAuthProviderKind(settings: AuthSettings): string {
+    return settings.provider
+        || (settings.tokenFile ? "file" : settings.token ? "token" : "password");
+}
+
+export function createAuthProvider(settings: AuthSettings): AuthProvider {
+    const kind = resolveAuthProviderKind(settings);
+
+    switch (kind) {
+        case "password":
+            if (!settings.email || !settings.password) {
+                throw new Error("Password authentication requires SLINGR_EMAIL and SLINGR_PASSWORD.");
+            }
+            return new PasswordAuthProvider(settings.loginUrl, settings.email, settings.password);
+        case "token":
+            if (!settings.token) {
+                throw new Error("Token authentication requires SLINGR_TOKEN.");
+            }
+            return new StaticTokenAuthProvider(settings.token);
+        case "file":
+            if (!settings.tokenFile) {
+                throw new Error("File token authentication requires SLINGR_TOKEN_FILE.");
+            }
+            return new FileTokenAuthProvider(settings.tokenFile);
+        default:
+            throw new Error(`Unknown auth provider '${kind}'. Use 'password', 'token' or 'file'.`);
+    }
+}
+
+/**
+ * Holds the current token for one set of credentials and makes sure concurrent
+ * callers that all hit an expired token share a single login.
+ */
+export class AuthSession {
+    private token?: string;
+    private pending?: Promise<string>;
+
+    constructor(readonly provider: AuthProvider) { }
+
+    async getToken(): Promise<string> {
+        return this.token ?? this.refresh();
+    }
+
+    /**
+     * Fetches a new token. When `staleToken` is given and the session already moved
+     * past it (another request refreshed in the meantime), the current token is reused.
+     */
+    refresh(staleToken?: string): Promise<string> {
+        if (this.token && staleToken !== undefined && this.token !== staleToken) {
+            return Promise.resolve(this.token);
+        }
+        if (!this.pending) {
+            this.pending = this.provider.getToken()
+                .then(token => {
+                    this.token = token;
+                    return token;
+                })
+                .finally(() => {
+                    this.pending = undefined;
+                });
+        }
+        return this.pending;
+    }
+}
@@ -0,0 +1,225 @@
+import type { AxiosInstance } from "axios";
+import fs from "fs";
+import path from "path";
+import { fetchEntities, fetchEntityMetadata, matchesEntity, type EntitySummary } from "./metadata.js";
+
+export type CodegenFormat = 'typescript' | 'jsonschema';
+
+export interface CodegenOptions {
+    /** IDs or names of the entities to generate; all of them when omitted. */
+    entities?: string[];
+    outputDir: string;
+    formats: CodegenFormat[];
+}
+
+export interface CodegenSummary {
+    entities: string[];
+    files: string[];
+}
+
+const COMMON_FILE = 'slingr-common.ts';
+
+const COMMON_TYPES = `// Generated from Slingr metadata. Do not edit by hand.
+
+/** A reference to a record of another entity, as returned by the runtime API. */
+export interface SlingrReference {
+    id: string;
+    label?: string;
+}
+
+/** A file field value. */
+export interface SlingrFile {
+    id: string;
+    name?: string;
+    contentType?: string;
+}
+`;
+
+const STRING_TYPES = /TEXT|HTML|EMAIL|URL|PHONE|COLOR|CODE|PASSWORD|IP|UUID/;
+const NUMBER_TYPES = /DECIMAL|MONEY|PERCENTAGE|NUMBER/;
+
+/** `sales.orderLines` -> `SalesOrderLines` */
+export function toTypeName(name: string): string {
+    const words = name.split(/[^A-Za-z0-9]+/).filter(Boolean);
+    const typeName = words.map(w => w[0].toUpperCase() + w.slice(1)).join('');
+    return /^[0-9]/.test(typeName) ? `_${typeName}` : typeName;
+}
+
+function isRequired(field: any): boolean {
+    // CONDITION rules depend on runtime values, so only ALWAYS makes a property mandatory
+    return field.generalRules?.required?.type === 'ALWAYS';
+}
+
+function choiceValues(field: any): string[] {
+    return (field.typeRules?.values || []).map((v: any) => v.name);
+}
+
+function propertyName(name: string): string {
+    return /^[A-Za-z_$][\w$]*$/.test(name) ? name : JSON.stringify(name);
+}
+
+function fieldDescription(field: any, entityNames: Map<string, string>): string {
+    const parts = [field.label && field.label !== field.name ? field.label : undefined];
+    if (field.type === 'RELATIONSHIP') {
+        const target = entityNames.get(field.typeRules?.entityId);
+        parts.push(target ? `Reference to '${target}'.` : 'Reference to another entity.');
+    }
+    return parts.filter(Boolean).join(' — ');
+}
+
+// --- TypeScript ---
+
+function tsSingleType(field: any, entityNames: Map<string, string>, indent: string): string {
+    const type = String(field.type || '').toUpperCase();
+    if (type === 'CHOICE') {
+        const values = choiceValues(field);
+        return values.length > 0 ? values.map(v => JSON.stringify(v)).join(' | ') : 'string';
+    }
+    if (type === 'RELATIONSHIP') return 'SlingrReference';
+    if (type === 'FILE') return 'SlingrFile';
+    if (Array.isArray(field.nestedFields)) return tsObjectType(field.nestedFields, entityNames, indent);
+    if (type === 'BOOLEAN') return 'boolean';
+    if (type === 'INTEGER' || NUMBER_TYPES.test(type)) return 'number';
+    // Dates come back as ISO strings or epoch milliseconds depending on the field settings
+    if (type === 'DATE') return 'string';
+    if (/DATE|TIME/.test(type)) return 'string | number';
+    if (STRING_TYPES.test(type)) return 'string';
+    return 'unknown';
+}
+
+function tsObjectType(fields: any[], entityNames: Map<string, string>, indent: string): string {
+    const inner = `${indent}    `;
+    const lines = fields.map(field => {
+        const single = tsSingleType(field, entityNames, inner);
+        const type = field.multiplicity === 'MANY'
+            ? (/[|{]/.test(single) ? `Array<${single}>` : `${single}[]`)
+            : single;
+        const description = fieldDescription(field, entityNames);
+        const doc = description ? `${inner}/** ${description} */\n` : '';
+        return `${doc}${inner}${propertyName(field.name)}${isRequired(field) ? '' : '?'}: ${type};`;
+    });
+    return `{\n${lines.join('\n')}\n${indent}}`;
+}
+
+export function renderTypeScript(metadata: any, entityNames: Map<string, string>): string {
+    const body = tsObjectType(metadata.fields || [], entityNames, '');
+    const systemFields = `{\n    id: string;\n    label?: string;\n    version?: number;\n`;
+    const commonTypes = ['SlingrFile', 'SlingrReference'].filter(t => body.includes(t));
+    return [
+        `// Generated from Slingr metadata of entity '${metadata.name}'. Do not edit by hand.`,
+        commonTypes.length > 0 ? `import type { ${commonTypes.join(', ')} } from "./${COMMON_FILE.replace(/\.ts$/, '.js')}";\n` : '',
+        `/** ${metadata.label || metadata.name} */`,
+        `export interface ${toTypeName(metadata.name)} ${systemFields}${body.slice(2)}`,
+        '',
+    ].join('\n');
+}
+
+// --- JSON Schema ---
+
+const REFERENCE_SCHEMA = {
+    type: 'object',
+    properties: { id: { type: 'string' }, label: { type: 'string' } },
+    required: ['id'],
+};
+
+const FILE_SCHEMA = {
+    type: 'object',
+    properties: { id: { type: 'string' }, name: { type: 'string' }, contentType: { type: 'string' } },
+    required: ['id'],
+};
+
+function schemaSingleType(field: any, entityNames: Map<string, string>): any {
+    const type = String(field.type || '').toUpperCase();
+    if (type === 'CHOICE') {
+        const values = choiceValues(field);
+        return values.length > 0 ? { type: 'string', enum: values } : { type: 'string' };
+    }
+    if (type === 'RELATIONSHIP') return { ...REFERENCE_SCHEMA };
+    if (type === 'FILE') return { ...FILE_SCHEMA };
+    if (Array.isArray(field.nestedFields)) return schemaObject(field.nestedFields, entityNames);
+    if (type === 'BOOLEAN') return { type: 'boolean' };
+    if (type === 'INTEGER') return { type: 'integer' };
+    if (NUMBER_TYPES.test(type)) return { type: 'number' };
+    if (type === 'DATE') return { type: 'string', format: 'date' };
+    if (/DATE|TIME/.test(type)) return { type: ['string', 'number'] };
+    if (type === 'EMAIL') return { type: 'string', format: 'email' };
+    if (type === 'URL') return { type: 'string', format: 'uri' };
+    if (STRING_TYPES.test(type)) return { type: 'string' };
+    return {};
+}
+
+function schemaObject(fields: any[], entityNames: Map<string, string>): any {
+    const properties: Record<string, any> = {};
+    for (const field of fields) {
+        const single = schemaSingleType(field, entityNames);
+        const schema = field.multiplicity === 'MANY' ? { type: 'array', items: single } : single;
+        const description = fieldDescription(field, entityNames);
+        properties[field.name] = description ? { description, ...schema } : schema;
+        if (field.type === 'RELATIONSHIP' && entityNames.has(field.typeRules?.entityId)) {
+            properties[field.name]['x-slingr-entity'] = entityNames.get(field.typeRules.entityId);
+        }
+    }
+    const required = fields.filter(isRequired).map(f => f.name);
+    return { type: 'object', properties, ...(required.length > 0 ? { required } : {}), additionalProperties: false };
+}
+
+export function renderJsonSchema(metadata: any, entityNames: Map<string, string>): any {
+    const schema = schemaObject(metadata.fields || [], entityNames);
+    return {
+        $schema: 'https://json-schema.org/draft/2020-12/schema',
+        $id: `${metadata.name}.schema.json`,
+        title: metadata.label || metadata.name,
+        type: 'object',
+        properties: {
+            id: { type: 'string' },
+            label: { type: 'string' },
+            version: { type: 'integer' },
+            ...schema.properties,
+        },
+        required: ['id', ...(schema.required || [])],
+        additionalProperties: false,
+    };
+}
+
+/**
+ * Reads the metadata of the selected entities and writes one TypeScript interface and/or
+ * JSON Schema per entity to `outputDir`. Relationship targets are resolved to entity names.
+ */
+export async function generateEntityTypes(builderClient: AxiosInstance, options: CodegenOptions): Promise<CodegenSummary> {
+    const allEntities = await fetchEntities(builderClient);
+    const entityNames = new Map(allEntities.map(e => [e.id, e.name]));
+
+    let selected: EntitySummary[] = allEntities;
+    if (options.entities?.length) {
+        const missing = options.entities.filter(ref => !allEntities.some(e => matchesEntity(e, ref)));
+        if (missing.length > 0) {
+            throw new Error(`Entities not found: ${missing.join(', ')}`);
+        }
+        selected = allEntities.filter(e => options.entities!.some(ref => matchesEntity(e, ref)));
+    }
+
+    fs.mkdirSync(options.outputDir, { recursive: true });
+    const files: string[] = [];
+    const write = (fileName: string, content: string) => {
+        const filePath = path.join(options.outputDir, fileName);
+        fs.writeFileSync(filePath, content, 'utf-8');
+        files.push(filePath);
+    };
+
+    for (const entity of selected) {
+        const metadata = await fetchEntityMetadata(builderClient, entity.id);
+        if (options.formats.includes('typescript')) {
+            write(`${metadata.name}.ts`, renderTypeScript(metadata, entityNames));
+        }
+        if (options.formats.includes('jsonschema')) {
+            write(`${metadata.name}.schema.json`, JSON.stringify(renderJsonSchema(metadata, entityNames), null, 2) + '\n');
+        }
+        console.error(`🧬 Generated types for '${metadata.name}'`);
+    }
+
+    if (options.formats.includes('typescript')) {
+        write(COMMON_FILE, COMMON_TYPES);
+    }
+
+    return { entities: selected.map(e => e.name), files };
+}
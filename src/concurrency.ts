@@ -0,0 +1,18 @@
+/**
+ * Like `Promise.all(items.map(fn))`, but with at most `concurrency` calls in flight
+ * so bulk operations don't flood the Slingr API. Results keep the input order.
+ */
+export async function mapWithConcurrency<T, R>(items: T[], concurrency: number, fn: (item: T, index: number) => Promise<R>): Promise<R[]> {
+    const results: R[] = new Array(items.length);
+    let next = 0;
+
+    const worker = async () => {
+        while (next < items.length) {
+            const index = next++;
+            results[index] = await fn(items[index], index);
+        }
+    };
+
+    await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, items.length)) }, worker));
+    return results;
+}
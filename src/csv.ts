@@ -0,0 +1,58 @@
+/** Quotes a value for CSV output when it contains a separator, quote or line break. */
+export function escapeCsvValue(value: any): string {
+    if (value === undefined || value === null) return '';
+    const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsvRow(values: any[]): string {
+    return values.map(escapeCsvValue).join(',');
+}
+
+/**
+ * Parses CSV text (RFC 4180: quoted values may contain separators, quotes and line
+ * breaks) into one object per row, keyed by the header row.
+ */
+export function parseCsv(text: string, separator = ','): Record<string, string>[] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let value = '';
+    let inQuotes = false;
+    const input = text.replace(/^\uFEFF/, '');
+
+    for (let i = 0; i < input.length; i++) {
+        const char = input[i];
+        if (inQuotes) {
+            if (char === '"' && input[i + 1] === '"') {
+                value += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                value += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === separator) {
+            row.push(value);
+            value = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && input[i + 1] === '\n') i++;
+            row.push(value);
+            rows.push(row);
+            row = [];
+            value = '';
+        } else {
+            value += char;
+        }
+    }
+    if (value !== '' || row.length > 0) {
+        row.push(value);
+        rows.push(row);
+    }
+
+    const [header, ...body] = rows.filter(r => r.some(v => v.trim() !== ''));
+    if (!header) return [];
+    const columns = header.map(h => h.trim());
+    return body.map(values => Object.fromEntries(columns.map((c, i) => [c, values[i] ?? ''])));
+}
@@ -0,0 +1,281 @@
+export interface ChunkOptions {
+    /** Upper bound per chunk, in estimated tokens. */
+    maxTokens: number;
+    /** Trailing tokens of a chunk repeated at the start of the next one from the same section. */
+    overlapTokens: number;
+    /** Sections smaller than this are merged into the subsection that follows them. */
+    minTokens: number;
+}
+
+export const DEFAULT_CHUNK_OPTIONS: ChunkOptions = {
+    maxTokens: Number(process.env.SLINGR_RAG_CHUNK_TOKENS || 400),
+    overlapTokens: Number(process.env.SLINGR_RAG_CHUNK_OVERLAP || 60),
+    minTokens: 40,
+};
+
+export interface MarkdownChunk {
+    text: string;
+    /** Heading breadcrumb, outermost first. */
+    headings: string[];
+    /** Slug of the innermost heading, usable as a `#fragment`; empty before the first heading. */
+    anchor: string;
+    /** 1-based, inclusive. */
+    startLine: number;
+    endLine: number;
+}
+
+interface Block {
+    kind: 'heading' | 'text' | 'code' | 'table';
+    lines: string[];
+    /** Source lines covered, 1-based; repeated fence or header lines of split pieces don't count. */
+    startLine: number;
+    endLine: number;
+}
+
+interface Section {
+    headings: string[];
+    anchor: string;
+    blocks: Block[];
+}
+
+const HEADING = /^\s{0,3}(#{1,6})\s+(.*?)\s*#*\s*$/;
+const FENCE = /^\s{0,3}(`{3,}|~{3,})/;
+const TABLE_ROW = /^\s*\|/;
+
+/** Rough token count (about 4 characters per token), good enough to size chunks. */
+export function estimateTokens(text: string): number {
+    return Math.ceil(text.length / 4);
+}
+
+/** GitHub-style heading anchor. */
+export function slugify(heading: string): string {
+    return heading
+        .toLowerCase()
+        .replace(/[`*_~[\]()]/g, '')
+        .replace(/[^\p{L}\p{N}\s-]/gu, '')
+        .trim()
+        .replace(/\s+/g, '-');
+}
+
+/** Gives repeated headings the `-1`, `-2`... suffixes GitHub uses. */
+function anchorTracker() {
+    const seen = new Map<string, number>();
+    return (heading: string) => {
+        const slug = slugify(heading);
+        const count = seen.get(slug) ?? 0;
+        seen.set(slug, count + 1);
+        return count === 0 ? slug : `${slug}-${count}`;
+    };
+}
+
+function parseSections(markdown: string): Section[] {
+    const lines = markdown.split(/\r?\n/);
+    const nextAnchor = anchorTracker();
+    const sections: Section[] = [{ headings: [], anchor: '', blocks: [] }];
+    let stack: string[] = [];
+    let current: Block | undefined;
+    let fence: string | undefined;
+
+    const flush = () => {
+        if (current) {
+            current.endLine = current.startLine + current.lines.length - 1;
+            sections[sections.length - 1].blocks.push(current);
+        }
+        current = undefined;
+    };
+
+    lines.forEach((line, i) => {
+        const lineNumber = i + 1;
+        if (fence) {
+            current!.lines.push(line);
+            const closing = line.match(FENCE);
+            if (closing && closing[1][0] === fence[0] && closing[1].length >= fence.length && line.trim() === closing[1]) {
+                fence = undefined;
+                flush();
+            }
+            return;
+        }
+
+        const opening = line.match(FENCE);
+        if (opening) {
+            flush();
+            fence = opening[1];
+            current = { kind: 'code', lines: [line], startLine: lineNumber, endLine: lineNumber };
+            return;
+        }
+
+        const heading = line.match(HEADING);
+        if (heading) {
+            flush();
+            const level = heading[1].length;
+            stack = [...stack.slice(0, level - 1), heading[2]];
+            sections.push({ headings: stack.filter(Boolean), anchor: nextAnchor(heading[2]), blocks: [] });
+            sections[sections.length - 1].blocks.push({ kind: 'heading', lines: [line], startLine: lineNumber, endLine: lineNumber });
+            return;
+        }
+
+        if (line.trim() === '') {
+            flush();
+            return;
+        }
+
+        const kind = TABLE_ROW.test(line) ? 'table' : 'text';
+        if (current && current.kind !== kind) flush();
+        if (!current) current = { kind, lines: [], startLine: lineNumber, endLine: lineNumber };
+        current.lines.push(line);
+    });
+    // An unterminated fence runs to the end of the file
+    flush();
+
+    return sections.filter(s => s.blocks.length > 0);
+}
+
+const blockText = (block: Block) => block.lines.join('\n');
+const blockTokens = (block: Block) => estimateTokens(blockText(block));
+
+/**
+ * Splits a block that alone exceeds the limit by lines (or by sentences, for a single long
+ * line of prose). Code pieces are re-fenced and table pieces repeat the header rows, so
+ * every piece still renders on its own.
+ */
+function splitBlock(block: Block, maxTokens: number): Block[] {
+    if (blockTokens(block) <= maxTokens) return [block];
+
+    let prefix: string[] = [];
+    let suffix: string[] = [];
+    let units = block.lines.map((text, i) => ({ text, line: block.startLine + i }));
+    let separator = '\n';
+    if (block.kind === 'code') {
+        const closed = units.length > 1 && FENCE.test(units[units.length - 1].text);
+        prefix = [block.lines[0]];
+        suffix = [block.lines[0].trim().match(FENCE)![1]];
+        units = units.slice(1, closed ? -1 : undefined);
+    } else if (block.kind === 'table' && units.length > 2) {
+        prefix = block.lines.slice(0, 2);
+        units = units.slice(2);
+    } else if (block.kind === 'text' && units.length === 1) {
+        units = block.lines[0].split(/(?<=[.!?])\s+/).filter(Boolean).map(text => ({ text, line: block.startLine }));
+        separator = ' ';
+    }
+    if (units.length < 2) return [block];
+
+    const budget = maxTokens - estimateTokens([...prefix, ...suffix].join('\n'));
+    const pieces: Block[] = [];
+    let piece: typeof units = [];
+    const push = () => pieces.push({
+        kind: block.kind,
+        lines: [...prefix, piece.map(u => u.text).join(separator), ...suffix],
+        startLine: piece[0].line,
+        endLine: piece[piece.length - 1].line,
+    });
+    for (const unit of units) {
+        if (piece.length > 0 && estimateTokens([...piece, unit].map(u => u.text).join(separator)) > budget) {
+            push();
+            piece = [];
+        }
+        piece.push(unit);
+    }
+    if (piece.length > 0) push();
+    return pieces;
+}
+
+function toChunk(section: Section, blocks: Block[]): MarkdownChunk {
+    return {
+        text: blocks.map(blockText).join('\n\n'),
+        headings: section.headings,
+        anchor: section.anchor,
+        startLine: blocks[0].startLine,
+        endLine: blocks[blocks.length - 1].endLine,
+    };
+}
+
+function isNestedIn(inner: Section, outer: Section): boolean {
+    return inner.headings.length > outer.headings.length &&
+        outer.headings.every((heading, i) => inner.headings[i] === heading);
+}
+
+/**
+ * Splits Markdown into chunks that follow the heading structure: a chunk stays within one
+ * section (short intros aside), code fences and tables stay whole unless they alone exceed
+ * `maxTokens`, and long sections are cut at block boundaries with some overlap.
+ */
+export function chunkMarkdown(markdown: string, options: ChunkOptions = DEFAULT_CHUNK_OPTIONS): MarkdownChunk[] {
+    const sections = parseSections(markdown);
+    const chunks: MarkdownChunk[] = [];
+
+    for (let s = 0; s < sections.length; s++) {
+        const section = sections[s];
+        const blocks = section.blocks.flatMap(b => splitBlock(b, options.maxTokens));
+
+        // A short intro directly followed by its own subsection becomes part of that subsection's first chunk
+        const tokens = blocks.reduce((sum, b) => sum + blockTokens(b), 0);
+        const next = sections[s + 1];
+        if (tokens < options.minTokens && next && isNestedIn(next, section)) {
+            sections[s + 1] = { ...next, blocks: [...section.blocks, ...next.blocks] };
+            continue;
+        }
+
+        let current: Block[] = [];
+        let currentTokens = 0;
+        const emit = () => {
+            if (current.some(b => b.kind !== 'heading')) chunks.push(toChunk(section, current));
+        };
+        for (const block of blocks) {
+            const size = blockTokens(block);
+            // A lone heading always travels with the block after it
+            if (current.some(b => b.kind !== 'heading') && currentTokens + size > options.maxTokens) {
+                emit();
+                // Carry the trailing blocks that fit in the overlap budget into the next chunk
+                const tail: Block[] = [];
+                let tailTokens = 0;
+                for (let i = current.length - 1; i > 0; i--) {
+                    const t = blockTokens(current[i]);
+                    if (tailTokens + t > options.overlapTokens) break;
+                    tail.unshift(current[i]);
+                    tailTokens += t;
+                }
+                const fits = tailTokens + size <= options.maxTokens;
+                current = fits ? tail : [];
+                currentTokens = fits ? tailTokens : 0;
+            }
+            current.push(block);
+            currentTokens += size;
+        }
+        emit();
+    }
+    return chunks;
+}
+
+/**
+ * The part of a Markdown document under the heading with this anchor, down to the next
+ * heading of the same or a higher level. Undefined when no heading matches.
+ */
+export function extractMarkdownSection(markdown: string, anchor: string): string | undefined {
+    const lines = markdown.split(/\r?\n/);
+    const nextAnchor = anchorTracker();
+    let start = -1;
+    let level = 0;
+    let fence: string | undefined;
+
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i];
+        const fenceMatch = line.match(FENCE);
+        if (fenceMatch) {
+            if (!fence) fence = fenceMatch[1];
+            else if (fenceMatch[1][0] === fence[0] && line.trim() === fenceMatch[1]) fence = undefined;
+            continue;
+        }
+        if (fence) continue;
+
+        const heading = line.match(HEADING);
+        if (!heading) continue;
+        if (start >= 0 && heading[1].length <= level) {
+            return lines.slice(start, i).join('\n').trimEnd();
+        }
+        if (start < 0 && nextAnchor(heading[2]) === anchor) {
+            start = i;
+            level = heading[1].length;
+        }
+    }
+    return start >= 0 ? lines.slice(start).join('\n').trimEnd() : undefined;
+}
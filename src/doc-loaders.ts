@@ -0,0 +1,228 @@
+import fs from "fs";
+import path from "path";
+import { glob } from "glob";
+import YAML from "yaml";
+import type { ChunkOptions } from "./doc-chunker.js";
+
+export const SOURCE_TYPES = ['markdown', 'html', 'text', 'openapi'] as const;
+export type SourceType = typeof SOURCE_TYPES[number];
+
+/**
+ * Turns one kind of documentation file into Markdown, which the chunker, the citations
+ * and the `slingr://docs/...` resource all work on.
+ */
+export interface DocLoader {
+    type: SourceType;
+    extensions: string[];
+    /** Undefined when the file isn't this loader's kind after all (e.g. JSON that isn't an OpenAPI spec). */
+    toMarkdown(content: string): string | undefined;
+    chunkOptions?: Partial<ChunkOptions>;
+}
+
+export interface DocSource {
+    /** Prepended to the paths of the directory's files ('' or 'name/'). */
+    prefix: string;
+    dir: string;
+}
+
+export interface DocFile {
+    /** Path as cited and stored: the source prefix plus the path inside the directory. */
+    source: string;
+    filePath: string;
+    loader: DocLoader;
+}
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+function decodeEntities(text: string): string {
+    return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, code: string) => {
+        if (code[0] === '#') {
+            const point = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+            return Number.isFinite(point) ? String.fromCodePoint(point) : match;
+        }
+        return ENTITIES[code.toLowerCase()] ?? match;
+    });
+}
+
+const stripTags = (html: string) => html.replace(/<[^>]*>/g, '');
+const inline = (html: string) => decodeEntities(stripTags(html)).replace(/\s+/g, ' ').trim();
+
+function tableToMarkdown(tableHtml: string): string {
+    const rows = [...tableHtml.matchAll(/<tr\b[^>]*>([\s\S]*?)<\/tr>/gi)]
+        .map(row => [...row[1].matchAll(/<t[dh]\b[^>]*>([\s\S]*?)<\/t[dh]>/gi)].map(cell => inline(cell[1]).replace(/\|/g, '\\|')));
+    if (rows.length === 0) return '';
+    const width = Math.max(...rows.map(r => r.length));
+    const line = (cells: string[]) => `| ${[...cells, ...Array(width - cells.length).fill('')].join(' | ')} |`;
+    return [line(rows[0]), line(Array(width).fill('---')), ...rows.slice(1).map(line)].join('\n');
+}
+
+/**
+ * Converts exported HTML pages to Markdown: only the `<main>`/`<article>` (or `<body>`)
+ * content is kept, navigation, headers, footers and scripts are dropped, and headings,
+ * lists, tables and `<pre>` blocks become their Markdown equivalents.
+ */
+export function htmlToMarkdown(html: string): string {
+    let body = html.replace(/<!--[\s\S]*?-->/g, '');
+    const main = body.match(/<(main|article)\b[^>]*>([\s\S]*?)<\/\1>/i) || body.match(/<(body)\b[^>]*>([\s\S]*?)<\/body>/i);
+    if (main) body = main[2];
+    body = body.replace(/<(script|style|noscript|nav|header|footer|aside|form|svg|iframe|template)\b[^>]*>[\s\S]*?<\/\1>/gi, '');
+
+    // Code and tables are set aside so the whitespace handling below leaves them intact
+    const blocks: string[] = [];
+    const keep = (markdown: string) => `\n\n\u0000${blocks.push(markdown) - 1}\u0000\n\n`;
+    body = body.replace(/<pre\b[^>]*>([\s\S]*?)<\/pre>/gi, (_, code) => keep(`\`\`\`\n${decodeEntities(stripTags(code)).replace(/\n+$/, '')}\n\`\`\``));
+    body = body.replace(/<table\b[^>]*>([\s\S]*?)<\/table>/gi, (_, table) => keep(tableToMarkdown(table)));
+
+    body = body
+        .replace(/<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1>/gi, (_, level, text) => `\n\n${'#'.repeat(Number(level))} ${inline(text)}\n\n`)
+        .replace(/<code\b[^>]*>([\s\S]*?)<\/code>/gi, (_, code) => `\`${inline(code)}\``)
+        .replace(/<li\b[^>]*>/gi, '\n- ')
+        .replace(/<br\s*\/?>/gi, '\n')
+        .replace(/<\/(p|div|section|ul|ol|blockquote|dl|dd|dt)>/gi, '\n\n');
+
+    const text = decodeEntities(stripTags(body))
+        .split('\n')
+        .map(line => line.replace(/[ \t\u00a0]+/g, ' ').trim())
+        .join('\n')
+        .replace(/\n{3,}/g, '\n\n')
+        .trim();
+    return text.replace(/\u0000(\d+)\u0000/g, (_, i) => blocks[Number(i)]);
+}
+
+const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'patch', 'head', 'options'];
+
+function resolveRef(spec: any, node: any): any {
+    if (!node?.$ref || typeof node.$ref !== 'string' || !node.$ref.startsWith('#/')) return node;
+    return node.$ref.slice(2).split('/').reduce((current: any, key: string) => current?.[key.replace(/~1/g, '/').replace(/~0/g, '~')], spec) ?? node;
+}
+
+function describeSchema(spec: any, schema: any, depth = 0): string {
+    if (!schema) return 'any';
+    const refName = typeof schema.$ref === 'string' ? schema.$ref.split('/').pop() : undefined;
+    const resolved = resolveRef(spec, schema);
+    if (resolved.type === 'array') return `array of ${describeSchema(spec, resolved.items, depth)}`;
+    if (resolved.properties && depth < 1) {
+        const required = new Set(resolved.required || []);
+        const properties = Object.entries(resolved.properties)
+            .map(([name, property]: [string, any]) => `${name}${required.has(name) ? '*' : ''}: ${describeSchema(spec, property, depth + 1)}`);
+        return `${refName ? `${refName} ` : ''}{ ${properties.join(', ')} }`;
+    }
+    return refName || resolved.type || 'object';
+}
+
+/** One `##` section per endpoint, with its parameters, request body and responses. */
+export function openApiToMarkdown(content: string): string | undefined {
+    let spec: any;
+    try {
+        spec = YAML.parse(content);
+    } catch {
+        return undefined;
+    }
+    if (!spec || typeof spec !== 'object' || !(spec.openapi || spec.swagger) || typeof spec.paths !== 'object') {
+        return undefined;
+    }
+
+    const lines = [`# ${spec.info?.title || 'API'}${spec.info?.version ? ` (${spec.info.version})` : ''}`];
+    if (spec.info?.description) lines.push('', String(spec.info.description).trim());
+
+    for (const [route, item] of Object.entries<any>(spec.paths)) {
+        for (const method of HTTP_METHODS) {
+            const operation = item?.[method];
+            if (!operation) continue;
+            lines.push('', `## ${method.toUpperCase()} ${route}`);
+            if (operation.summary) lines.push('', String(operation.summary).trim());
+            if (operation.description) lines.push('', String(operation.description).trim());
+            if (operation.operationId || operation.tags?.length) {
+                lines.push('', [operation.operationId && `Operation: \`${operation.operationId}\``, operation.tags?.length && `Tags: ${operation.tags.join(', ')}`].filter(Boolean).join('. '));
+            }
+
+            const parameters = [...(item.parameters || []), ...(operation.parameters || [])].map(p => resolveRef(spec, p));
+            if (parameters.length > 0) {
+                lines.push('', 'Parameters:');
+                parameters.forEach(p => lines.push(`- \`${p.name}\` (${p.in}${p.required ? ', required' : ''}, ${describeSchema(spec, p.schema ?? p)})${p.description ? `: ${String(p.description).trim()}` : ''}`));
+            }
+
+            const body = resolveRef(spec, operation.requestBody);
+            if (body?.content) {
+                lines.push('', 'Request body:');
+                Object.entries<any>(body.content).forEach(([type, media]) => lines.push(`- ${type}: ${describeSchema(spec, media.schema)}`));
+            }
+
+            const responses = Object.entries<any>(operation.responses || {});
+            if (responses.length > 0) {
+                lines.push('', 'Responses:');
+                responses.forEach(([code, response]) => {
+                    const resolved = resolveRef(spec, response);
+                    const schema = Object.values<any>(resolved.content || {})[0]?.schema ?? resolved.schema;
+                    lines.push(`- ${code}: ${resolved.description || ''}${schema ? ` (${describeSchema(spec, schema)})` : ''}`.trimEnd());
+                });
+            }
+        }
+    }
+    return lines.join('\n');
+}
+
+export const DOC_LOADERS: DocLoader[] = [
+    { type: 'markdown', extensions: ['.md', '.markdown'], toMarkdown: content => content },
+    { type: 'html', extensions: ['.html', '.htm'], toMarkdown: htmlToMarkdown },
+    { type: 'text', extensions: ['.txt'], toMarkdown: content => content },
+    // Endpoints are siblings, so a short API intro stays its own chunk instead of joining the first endpoint
+    { type: 'openapi', extensions: ['.json', '.yaml', '.yml'], toMarkdown: openApiToMarkdown, chunkOptions: { minTokens: 0 } },
+];
+
+export function loaderForFile(file: string): DocLoader | undefined {
+    const extension = path.extname(file).toLowerCase();
+    return DOC_LOADERS.find(loader => loader.extensions.includes(extension));
+}
+
+/**
+ * The documentation directories, from `SLINGR_DOCS_DIRS` (comma-separated, default `docs`).
+ * `name=path` entries cite their files as `name/...`; plain paths are cited without prefix.
+ */
+export function docSources(): DocSource[] {
+    return (process.env.SLINGR_DOCS_DIRS || 'docs')
+        .split(',')
+        .map(entry => entry.trim())
+        .filter(Boolean)
+        .map(entry => {
+            const separator = entry.indexOf('=');
+            const name = separator > 0 ? entry.slice(0, separator).trim() : '';
+            const dir = separator > 0 ? entry.slice(separator + 1).trim() : entry;
+            return { prefix: name ? `${name}/` : '', dir: path.resolve(process.cwd(), dir) };
+        });
+}
+
+/** Every file a loader handles in the documentation directories, sorted by source path. */
+export async function listDocFiles(): Promise<DocFile[]> {
+    const extensions = DOC_LOADERS.flatMap(loader => loader.extensions.map(e => e.slice(1)));
+    const files = new Map<string, DocFile>();
+    for (const { prefix, dir } of docSources()) {
+        if (!fs.existsSync(dir)) {
+            console.error(`⚠️ Documentation directory not found: ${dir}`);
+            continue;
+        }
+        for (const relative of await glob(`**/*.{${extensions.join(',')}}`, { cwd: dir, nocase: true })) {
+            const source = `${prefix}${relative.split(path.sep).join('/')}`;
+            if (files.has(source)) {
+                console.error(`⚠️ ${source} exists in more than one documentation directory; using ${files.get(source)!.filePath}`);
+                continue;
+            }
+            files.set(source, { source, filePath: path.join(dir, relative), loader: loaderForFile(relative)! });
+        }
+    }
+    return [...files.values()].sort((a, b) => a.source.localeCompare(b.source));
+}
+
+/** The Markdown form of a cited documentation file, for the `slingr://docs/...` resource. */
+export function readDocument(source: string): { markdown: string, type: SourceType } | undefined {
+    for (const { prefix, dir } of docSources()) {
+        if (!source.startsWith(prefix)) continue;
+        const filePath = path.resolve(dir, source.slice(prefix.length));
+        // Stay inside the documentation directory
+        if (!filePath.startsWith(dir + path.sep) || !fs.existsSync(filePath)) continue;
+        const loader = loaderForFile(filePath);
+        const markdown = loader?.toMarkdown(fs.readFileSync(filePath, 'utf-8'));
+        if (loader && markdown !== undefined) return { markdown, type: loader.type };
+    }
+    return undefined;
+}
@@ -0,0 +1,132 @@
+import * as path from 'path';
+import * as lancedb from '@lancedb/lancedb';
+import { pipeline } from '@xenova/transformers';
+
+export const DB_PATH = path.join(process.cwd(), 'data/lancedb');
+
+// Indexes written before the model was configurable carry no model name and used this one
+const LEGACY_MODEL = 'Xenova/all-MiniLM-L6-v2';
+
+/**
+ * Any transformers.js feature-extraction model works, e.g. a multilingual one such as
+ * `Xenova/multilingual-e5-small`. E5-style models expect the `query: ` / `passage: ` prefixes.
+ */
+export const EMBEDDING_MODEL = process.env.SLINGR_EMBEDDING_MODEL || LEGACY_MODEL;
+const QUERY_PREFIX = process.env.SLINGR_EMBEDDING_QUERY_PREFIX || '';
+const PASSAGE_PREFIX = process.env.SLINGR_EMBEDDING_PASSAGE_PREFIX || '';
+const POOLING = process.env.SLINGR_EMBEDDING_POOLING === 'cls' ? 'cls' : 'mean';
+
+export type EmbeddingRole = 'query' | 'passage';
+
+/**
+ * What the stored vectors depend on, kept in the schema metadata of each table (and in
+ * the manifests of incremental updates). The query prefix isn't part of it: it only shapes
+ * the query vectors, which are computed anew for every search.
+ */
+export interface EmbeddingFingerprint {
+    model: string;
+    dimension?: number;
+    pooling?: string;
+    passagePrefix?: string;
+}
+
+// Shared by the documentation and app metadata indexes, so the model is loaded only once
+let extractor: Promise<any> | undefined;
+let connection: Promise<any> | undefined;
+let dimension: number | undefined;
+
+/** Loads the embedding model (downloaded on first use). */
+export function loadEmbeddingModel(): Promise<any> {
+    if (!extractor) {
+        extractor = pipeline('feature-extraction', EMBEDDING_MODEL);
+        extractor.catch(() => { extractor = undefined; });
+    }
+    return extractor;
+}
+
+/** Embeds a search query or a passage to index, with the prefix configured for that role. */
+export async function embedText(text: string, role: EmbeddingRole): Promise<number[]> {
+    const embed = await loadEmbeddingModel();
+    const prefix = role === 'query' ? QUERY_PREFIX : PASSAGE_PREFIX;
+    const output = await embed(`${prefix}${text}`, { pooling: POOLING, normalize: true });
+    const vector = Array.from(output.data) as number[];
+    dimension = vector.length;
+    return vector;
+}
+
+export async function embeddingFingerprint(): Promise<Required<EmbeddingFingerprint>> {
+    if (dimension === undefined) {
+        await embedText('dimension probe', 'passage');
+    }
+    return { model: EMBEDDING_MODEL, dimension: dimension!, pooling: POOLING, passagePrefix: PASSAGE_PREFIX };
+}
+
+// Schema metadata key of the fingerprint in the tables this module creates
+const FINGERPRINT_KEY = 'embedding';
+
+/**
+ * The settings in which `recorded` differs from the current setup, as (recorded, current)
+ * descriptions. Settings missing from older records take the values those indexes used.
+ */
+function fingerprintDifferences(recorded: EmbeddingFingerprint, current: Required<EmbeddingFingerprint>): [string, string][] {
+    const differences: [string, string][] = [];
+    const model = recorded.model ?? LEGACY_MODEL;
+    if (model !== current.model) differences.push([`model '${model}'`, `model '${current.model}'`]);
+    if (recorded.dimension !== undefined && recorded.dimension !== current.dimension) {
+        differences.push([`${recorded.dimension} dimensions`, `${current.dimension} dimensions`]);
+    }
+    const pooling = recorded.pooling ?? 'mean';
+    if (pooling !== current.pooling) differences.push([`${pooling} pooling`, `${current.pooling} pooling`]);
+    const passagePrefix = recorded.passagePrefix ?? '';
+    if (passagePrefix !== current.passagePrefix) {
+        differences.push([`passage prefix '${passagePrefix}'`, `passage prefix '${current.passagePrefix}'`]);
+    }
+    return differences;
+}
+
+/** Whether vectors recorded with `recorded` can be mixed with new ones (incremental updates). */
+export async function matchesCurrentEmbeddings(recorded: EmbeddingFingerprint): Promise<boolean> {
+    return fingerprintDifferences(recorded, await embeddingFingerprint()).length === 0;
+}
+
+/** Creates a vector table whose schema metadata records the current fingerprint. */
+export async function createVectorTable(db: any, name: string, rows: any[]): Promise<any> {
+    const data = lancedb.makeArrowTable(rows);
+    data.schema.metadata.set(FINGERPRINT_KEY, JSON.stringify(await embeddingFingerprint()));
+    return db.createTable(name, data);
+}
+
+async function tableFingerprint(table: any): Promise<{ recorded?: EmbeddingFingerprint, dimension?: number }> {
+    const schema = await table.schema();
+    const stored = schema.metadata?.get(FINGERPRINT_KEY);
+    return {
+        recorded: stored ? JSON.parse(stored) : undefined,
+        dimension: schema.fields.find((f: any) => f.name === 'vector')?.type?.listSize,
+    };
+}
+
+/**
+ * Explains why `table` can't be searched with the configured embedding setup (another
+ * model, vector size, pooling or passage prefix), or returns undefined when it can. Query
+ * vectors from a different setup land in an unrelated space, so the results would be
+ * meaningless rather than just worse. The fingerprint in the table wins over `recorded`
+ * (a manifest), which only matters for tables created before it was stored there.
+ */
+export async function embeddingMismatch(table: any, recorded: EmbeddingFingerprint | undefined): Promise<string | undefined> {
+    const current = await embeddingFingerprint();
+    const stored = await tableFingerprint(table);
+    const fingerprint = stored.recorded ?? recorded ?? { model: LEGACY_MODEL };
+    const differences = fingerprintDifferences({ ...fingerprint, dimension: stored.dimension ?? fingerprint.dimension }, current);
+    if (differences.length === 0) {
+        return undefined;
+    }
+    return `it was built with ${differences.map(([was]) => was).join(', ')} but the server is configured for ${differences.map(([now]) => now).join(', ')}`;
+}
+
+export function connectVectorStore(): Promise<any> {
+    if (!connection) {
+        connection = lancedb.connect(DB_PATH);
+        connection.catch(() => { connection = undefined; });
+    }
+    return connection;
+}
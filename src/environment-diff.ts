@@ -0,0 +1,281 @@
+import type { AxiosInstance } from "axios";
+import { mapWithConcurrency } from "./concurrency.js";
+import { fieldDefinitionFromMetadata, labelText, requiredRule } from "./field-types.js";
+import { fetchEntities, fetchEntityMetadata, filterByFolderPath, matchesEntity, type EntitySummary } from "./metadata.js";
+import { describePermission, fetchEntityPermissions, TOP_LEVEL_PERMISSIONS } from "./permissions.js";
+
+export interface DiffScope {
+    /** Only compare entities whose folder path starts with this prefix. */
+    entityPath?: string;
+    /** Only compare these entities (names or labels; IDs differ between environments). */
+    entities?: string[];
+    includePermissions: boolean;
+}
+
+/** An entity's metadata with everything environment-specific (IDs) taken out. */
+interface NormalizedEntity {
+    name: string;
+    label: string;
+    fields: Map<string, Record<string, any>>;
+    actions: string[];
+    /** Group name -> permission path -> description. Undefined when permissions weren't compared. */
+    permissions?: Map<string, Map<string, string>>;
+}
+
+export interface FieldDifference {
+    field: string;
+    property: string;
+    source: any;
+    target: any;
+}
+
+export interface PermissionDifference {
+    group: string;
+    permission: string;
+    source: string;
+    target: string;
+}
+
+export interface EntityDiff {
+    entity: string;
+    /** Set when the entity's label differs. */
+    label?: { source: string, target: string };
+    fieldsOnlyInSource: string[];
+    fieldsOnlyInTarget: string[];
+    fieldDifferences: FieldDifference[];
+    actionsOnlyInSource: string[];
+    actionsOnlyInTarget: string[];
+    groupsOnlyInSource: string[];
+    groupsOnlyInTarget: string[];
+    permissionDifferences: PermissionDifference[];
+}
+
+export interface MetadataDiff {
+    source: string;
+    target: string;
+    entitiesCompared: number;
+    entitiesOnlyInSource: string[];
+    entitiesOnlyInTarget: string[];
+    /** Entities present on both sides that differ; identical ones are left out. */
+    entities: EntityDiff[];
+    warnings: string[];
+}
+
+function groupName(p: any): string {
+    return p.name ?? p.group?.name ?? labelText(p.label) ?? p.group?.label ?? p.id;
+}
+
+function normalizePermissions(group: any): Map<string, string> {
+    const permissions = new Map<string, string>();
+    [...TOP_LEVEL_PERMISSIONS, 'canImport', 'canExport'].forEach(perm => permissions.set(perm, describePermission(group[perm])));
+    group.fields?.forEach((f: any) => permissions.set(`fields.${f.name}`, describePermission(f.permission)));
+    group.actions?.forEach((a: any) => {
+        permissions.set(`actions.${a.name}`, describePermission(a.permission));
+        a.parameters?.forEach((p: any) => permissions.set(`actions.${a.name}.parameters.${p.name}`, describePermission(p.permission)));
+    });
+    return permissions;
+}
+
+function selectEntities(entities: EntitySummary[], scope: DiffScope): EntitySummary[] {
+    const inPath = filterByFolderPath(entities, scope.entityPath);
+    return scope.entities?.length ? inPath.filter(e => scope.entities!.some(ref => matchesEntity(e, ref))) : inPath;
+}
+
+interface EnvironmentSnapshot {
+    entities: Map<string, NormalizedEntity>;
+    /** Entries of `scope.entities` that matched no entity here. */
+    unmatched: string[];
+}
+
+async function snapshotEntities(builderClient: AxiosInstance, scope: DiffScope, warnings: string[], environment: string): Promise<EnvironmentSnapshot> {
+    const all = await fetchEntities(builderClient);
+    // Relationship targets are compared by name, since entity IDs are per environment
+    const namesById = new Map(all.map(e => [e.id, e.name]));
+    const selected = selectEntities(all, scope);
+
+    const normalized = await mapWithConcurrency(selected, 4, async (entity): Promise<NormalizedEntity> => {
+        const metadata = await fetchEntityMetadata(builderClient, entity.id);
+        const fields = new Map<string, Record<string, any>>();
+        (metadata.fields || []).forEach((f: any) => {
+            const { name, relatedEntityId, ...definition } = fieldDefinitionFromMetadata(f);
+            fields.set(name, {
+                ...definition,
+                required: requiredRule(f),
+                relatedEntity: relatedEntityId ? namesById.get(relatedEntityId) ?? relatedEntityId : undefined,
+            });
+        });
+
+        let permissions: Map<string, Map<string, string>> | undefined;
+        if (scope.includePermissions) {
+            try {
+                const groups = await fetchEntityPermissions(builderClient, entity.id);
+                permissions = new Map(groups.map(g => [groupName(g), normalizePermissions(g)]));
+            } catch (error: any) {
+                warnings.push(`Permissions of '${entity.name}' in '${environment}' could not be read: ${error.message}`);
+            }
+        }
+
+        return {
+            name: entity.name,
+            label: labelText(metadata.label) || entity.label,
+            fields,
+            actions: (metadata.actions || []).map((a: any) => a.name).filter(Boolean),
+            permissions,
+        };
+    });
+    return {
+        entities: new Map(normalized.map(e => [e.name, e])),
+        unmatched: (scope.entities || []).filter(ref => !all.some(e => matchesEntity(e, ref))),
+    };
+}
+
+// Key order differs between environments, so compare values with sorted keys
+function canonical(value: any): string {
+    if (value === undefined) return 'undefined';
+    return JSON.stringify(value, (_key, v) => (v && typeof v === 'object' && !Array.isArray(v)
+        ? Object.fromEntries(Object.entries(v).sort(([a], [b]) => a.localeCompare(b)))
+        : v));
+}
+
+const onlyIn = (a: Iterable<string>, b: Iterable<string>) => {
+    const other = new Set(b);
+    return [...a].filter(x => !other.has(x)).sort();
+};
+
+function diffEntity(source: NormalizedEntity, target: NormalizedEntity): EntityDiff {
+    const diff: EntityDiff = {
+        entity: source.name,
+        fieldsOnlyInSource: onlyIn(source.fields.keys(), target.fields.keys()),
+        fieldsOnlyInTarget: onlyIn(target.fields.keys(), source.fields.keys()),
+        fieldDifferences: [],
+        actionsOnlyInSource: onlyIn(source.actions, target.actions),
+        actionsOnlyInTarget: onlyIn(target.actions, source.actions),
+        groupsOnlyInSource: [],
+        groupsOnlyInTarget: [],
+        permissionDifferences: [],
+    };
+    if (source.label !== target.label) {
+        diff.label = { source: source.label, target: target.label };
+    }
+
+    for (const [name, sourceField] of source.fields) {
+        const targetField = target.fields.get(name);
+        if (!targetField) continue;
+        const properties = new Set([...Object.keys(sourceField), ...Object.keys(targetField)]);
+        for (const property of properties) {
+            if (canonical(sourceField[property]) !== canonical(targetField[property])) {
+                diff.fieldDifferences.push({ field: name, property, source: sourceField[property], target: targetField[property] });
+            }
+        }
+    }
+
+    // Only compare groups when both sides could be read
+    if (source.permissions && target.permissions) {
+        diff.groupsOnlyInSource = onlyIn(source.permissions.keys(), target.permissions.keys());
+        diff.groupsOnlyInTarget = onlyIn(target.permissions.keys(), source.permissions.keys());
+        for (const [group, sourcePerms] of source.permissions) {
+            const targetPerms = target.permissions.get(group);
+            if (!targetPerms) continue;
+            const paths = new Set([...sourcePerms.keys(), ...targetPerms.keys()]);
+            for (const permission of paths) {
+                const from = sourcePerms.get(permission) ?? '(none)';
+                const to = targetPerms.get(permission) ?? '(none)';
+                if (from !== to) diff.permissionDifferences.push({ group, permission, source: from, target: to });
+            }
+        }
+    }
+    return diff;
+}
+
+function hasDifferences(diff: EntityDiff): boolean {
+    return diff.label !== undefined || Object.values(diff).some(v => Array.isArray(v) && v.length > 0);
+}
+
+/**
+ * Compares the entities, fields, actions and (optionally) group permissions of two
+ * environments. Everything is matched by name, so differing IDs don't count as changes.
+ */
+export async function diffEnvironmentMetadata(
+    source: { environment: string, builderClient: AxiosInstance },
+    target: { environment: string, builderClient: AxiosInstance },
+    scope: DiffScope
+): Promise<MetadataDiff> {
+    const warnings: string[] = [];
+    const [sourceSnapshot, targetSnapshot] = await Promise.all([
+        snapshotEntities(source.builderClient, scope, warnings, source.environment),
+        snapshotEntities(target.builderClient, scope, warnings, target.environment),
+    ]);
+    const missing = sourceSnapshot.unmatched.filter(ref => targetSnapshot.unmatched.includes(ref));
+    if (missing.length > 0) {
+        throw new Error(`Entities not found in either environment: ${missing.join(', ')}`);
+    }
+    const sourceEntities = sourceSnapshot.entities;
+    const targetEntities = targetSnapshot.entities;
+
+    const entities: EntityDiff[] = [];
+    let entitiesCompared = 0;
+    for (const [name, sourceEntity] of sourceEntities) {
+        const targetEntity = targetEntities.get(name);
+        if (!targetEntity) continue;
+        entitiesCompared++;
+        const diff = diffEntity(sourceEntity, targetEntity);
+        if (hasDifferences(diff)) entities.push(diff);
+    }
+
+    return {
+        source: source.environment,
+        target: target.environment,
+        entitiesCompared,
+        entitiesOnlyInSource: onlyIn(sourceEntities.keys(), targetEntities.keys()),
+        entitiesOnlyInTarget: onlyIn(targetEntities.keys(), sourceEntities.keys()),
+        entities: entities.sort((a, b) => a.entity.localeCompare(b.entity)),
+        warnings,
+    };
+}
+
+function cell(value: any): string {
+    const text = value === undefined ? '(none)' : typeof value === 'string' ? value : JSON.stringify(value);
+    return text.replace(/\|/g, '\\|');
+}
+
+export function renderMetadataDiff(diff: MetadataDiff): string {
+    const { source, target } = diff;
+    const lines = [
+        `# Metadata diff: ${source} → ${target}`,
+        '',
+        `${diff.entitiesCompared} entities in both environments, ${diff.entities.length} with differences.`,
+    ];
+    const list = (title: string, items: string[]) => {
+        if (items.length > 0) lines.push('', `${title} (${items.length}):`, ...items.map(i => `- ${i}`));
+    };
+
+    list(`Entities only in ${source}`, diff.entitiesOnlyInSource);
+    list(`Entities only in ${target}`, diff.entitiesOnlyInTarget);
+
+    for (const entity of diff.entities) {
+        lines.push('', `## ${entity.entity}`);
+        if (entity.label) {
+            lines.push('', `Label: '${entity.label.source}' in ${source}, '${entity.label.target}' in ${target}.`);
+        }
+        list(`Fields only in ${source}`, entity.fieldsOnlyInSource);
+        list(`Fields only in ${target}`, entity.fieldsOnlyInTarget);
+        if (entity.fieldDifferences.length > 0) {
+            lines.push('', `| Field | Property | ${source} | ${target} |`, '| --- | --- | --- | --- |');
+            entity.fieldDifferences.forEach(d => lines.push(`| ${d.field} | ${d.property} | ${cell(d.source)} | ${cell(d.target)} |`));
+        }
+        list(`Actions only in ${source}`, entity.actionsOnlyInSource);
+        list(`Actions only in ${target}`, entity.actionsOnlyInTarget);
+        list(`Groups only in ${source}`, entity.groupsOnlyInSource);
+        list(`Groups only in ${target}`, entity.groupsOnlyInTarget);
+        if (entity.permissionDifferences.length > 0) {
+            lines.push('', `| Group | Permission | ${source} | ${target} |`, '| --- | --- | --- | --- |');
+            entity.permissionDifferences.forEach(d => lines.push(`| ${d.group} | ${d.permission} | ${cell(d.source)} | ${cell(d.target)} |`));
+        }
+    }
+
+    if (diff.entitiesOnlyInSource.length === 0 && diff.entitiesOnlyInTarget.length === 0 && diff.entities.length === 0) {
+        lines.push('', 'No differences found.');
+    }
+    list('Warnings', diff.warnings);
+    return lines.join('\n');
+}
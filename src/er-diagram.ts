@@ -0,0 +1,134 @@
+import type { AxiosInstance } from "axios";
+import { mapWithConcurrency } from "./concurrency.js";
+import { labelText } from "./field-types.js";
+import { fetchEntities, fetchEntityMetadata, filterByFolderPath, matchesEntity, type EntitySummary } from "./metadata.js";
+
+export type DiagramFormat = 'mermaid' | 'dot';
+
+export interface DiagramOptions {
+    /** Start from the entities under this folder path. */
+    entityPath?: string;
+    /** Start from these entities (IDs, names or labels). */
+    entities?: string[];
+    /** Relationship hops to follow from the starting entities, in both directions. */
+    depth: number;
+    includeFields: boolean;
+}
+
+interface DiagramNode {
+    entity: EntitySummary;
+    fields: { name: string, type: string }[];
+}
+
+interface DiagramEdge {
+    from: string;
+    to: string;
+    field: string;
+    many: boolean;
+}
+
+export interface EntityGraph {
+    nodes: DiagramNode[];
+    edges: DiagramEdge[];
+}
+
+/**
+ * Collects entities and the RELATIONSHIP fields between them. Without a scope the whole
+ * app is included; with one, the starting entities plus everything within `depth` hops.
+ */
+export async function buildEntityGraph(builderClient: AxiosInstance, options: DiagramOptions): Promise<EntityGraph> {
+    const entities = await fetchEntities(builderClient);
+    const metadataList = await mapWithConcurrency(entities, 4, e => fetchEntityMetadata(builderClient, e.id));
+
+    const allEdges: DiagramEdge[] = [];
+    const allNodes = new Map<string, DiagramNode>();
+    entities.forEach((entity, i) => {
+        const fields: any[] = metadataList[i].fields || [];
+        allNodes.set(entity.id, { entity, fields: fields.map(f => ({ name: f.name, type: String(f.type || '') })) });
+        fields
+            .filter(f => f.type === 'RELATIONSHIP' && f.typeRules?.entityId)
+            .forEach(f => allEdges.push({ from: entity.id, to: f.typeRules.entityId, field: f.name, many: f.multiplicity === 'MANY' }));
+    });
+
+    let included: Set<string>;
+    if (!options.entityPath && !options.entities?.length) {
+        included = new Set(allNodes.keys());
+    } else {
+        let seeds = filterByFolderPath(entities, options.entityPath);
+        if (options.entities?.length) {
+            const missing = options.entities.filter(ref => !entities.some(e => matchesEntity(e, ref)));
+            if (missing.length > 0) throw new Error(`Entities not found: ${missing.join(', ')}`);
+            seeds = seeds.filter(e => options.entities!.some(ref => matchesEntity(e, ref)));
+        }
+        included = new Set(seeds.map(e => e.id));
+        let frontier = [...included];
+        for (let hop = 0; hop < options.depth && frontier.length > 0; hop++) {
+            const next: string[] = [];
+            for (const edge of allEdges) {
+                for (const [a, b] of [[edge.from, edge.to], [edge.to, edge.from]]) {
+                    if (frontier.includes(a) && !included.has(b) && allNodes.has(b)) {
+                        included.add(b);
+                        next.push(b);
+                    }
+                }
+            }
+            frontier = next;
+        }
+    }
+
+    return {
+        nodes: [...included].map(id => allNodes.get(id)!).filter(Boolean),
+        edges: allEdges.filter(e => included.has(e.from) && included.has(e.to)),
+    };
+}
+
+// Mermaid identifiers only allow letters, digits, underscores and hyphens
+function mermaidId(name: string): string {
+    return name.replace(/[^A-Za-z0-9_-]/g, '_');
+}
+
+export function renderMermaid(graph: EntityGraph, includeFields: boolean): string {
+    const names = new Map(graph.nodes.map(n => [n.entity.id, mermaidId(n.entity.name)]));
+    const lines = ['erDiagram'];
+    for (const node of graph.nodes) {
+        if (includeFields && node.fields.length > 0) {
+            lines.push(`    ${names.get(node.entity.id)} {`);
+            node.fields.forEach(f => lines.push(`        ${mermaidId(f.type || 'UNKNOWN')} ${mermaidId(f.name)}`));
+            lines.push('    }');
+        } else {
+            lines.push(`    ${names.get(node.entity.id)}`);
+        }
+    }
+    for (const edge of graph.edges) {
+        // A ONE field: each source record points at one target, a target has many sources
+        const cardinality = edge.many ? '}o--o{' : '||--o{';
+        lines.push(`    ${names.get(edge.to)} ${cardinality} ${names.get(edge.from)} : "${edge.field}"`);
+    }
+    return lines.join('\n');
+}
+
+function dotString(text: string): string {
+    return JSON.stringify(text);
+}
+
+export function renderDot(graph: EntityGraph, includeFields: boolean): string {
+    const lines = ['digraph entities {', '    rankdir=LR;', '    node [shape=box, fontname="Helvetica"];', '    edge [fontname="Helvetica", fontsize=10];'];
+    for (const node of graph.nodes) {
+        const title = labelText(node.entity.label) || node.entity.name;
+        const label = includeFields && node.fields.length > 0
+            ? `${title}\n\n${node.fields.map(f => `${f.name}: ${f.type}`).join('\n')}`
+            : title;
+        lines.push(`    ${dotString(node.entity.name)} [label=${dotString(label)}];`);
+    }
+    const names = new Map(graph.nodes.map(n => [n.entity.id, n.entity.name]));
+    for (const edge of graph.edges) {
+        const style = edge.many ? ', arrowhead=crow' : '';
+        lines.push(`    ${dotString(names.get(edge.from)!)} -> ${dotString(names.get(edge.to)!)} [label=${dotString(edge.field)}${style}];`);
+    }
+    lines.push('}');
+    return lines.join('\n');
+}
+
+export function renderEntityGraph(graph: EntityGraph, format: DiagramFormat, includeFields: boolean): string {
+    return format === 'dot' ? renderDot(graph, includeFields) : renderMermaid(graph, includeFields);
+}
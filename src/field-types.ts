@@ -0,0 +1,203 @@
+import { z } from "zod";
+import { validateRecordData } from "./record-validation.js";
+import { didYouMean } from "./suggest.js";
+
+/** A CHOICE option as written in a spec or tool call: just the name, or name and label. */
+export type ChoiceOption = string | { name: string, label?: string };
+
+export const choiceOptionSchema = z.union([z.string(), z.object({ name: z.string(), label: z.string().optional() })]);
+
+const lengthRules = {
+    minLength: z.number().int().min(0).optional(),
+    maxLength: z.number().int().positive().optional(),
+};
+const rangeRules = {
+    minValue: z.number().optional(),
+    maxValue: z.number().optional(),
+};
+const decimalsRule = { numberOfDecimals: z.number().int().min(0).max(10).optional() };
+
+interface FieldTypeInfo {
+    description: string;
+    /** Type-specific rules accepted in `rules`, sent as `typeRules`. */
+    rules: z.ZodObject<any>;
+}
+
+/** The field types create_field and schema specs support, with their type-specific rules. */
+export const FIELD_TYPES: Record<string, FieldTypeInfo> = {
+    TEXT: { description: "Single-line text.", rules: z.object({ ...lengthRules, regex: z.string().optional() }) },
+    LONG_TEXT: { description: "Multi-line text.", rules: z.object(lengthRules) },
+    HTML: { description: "Rich text stored as HTML.", rules: z.object({ maxLength: lengthRules.maxLength }) },
+    EMAIL: { description: "Email address.", rules: z.object({}) },
+    URL: { description: "Web address.", rules: z.object({}) },
+    PHONE: { description: "Phone number.", rules: z.object({}) },
+    INTEGER: { description: "Whole number.", rules: z.object(rangeRules) },
+    DECIMAL: { description: "Number with decimals.", rules: z.object({ ...rangeRules, ...decimalsRule }) },
+    MONEY: { description: "Amount of money.", rules: z.object({ ...rangeRules, ...decimalsRule, currency: z.string().length(3).optional() }) },
+    PERCENTAGE: { description: "Percentage.", rules: z.object({ ...rangeRules, ...decimalsRule }) },
+    BOOLEAN: { description: "True or false.", rules: z.object({}) },
+    DATE: { description: "Calendar date.", rules: z.object({}) },
+    DATE_TIME: { description: "Date and time.", rules: z.object({}) },
+    TIME: { description: "Time of day.", rules: z.object({}) },
+    CHOICE: { description: "One of a fixed list of options. Needs 'options'.", rules: z.object({}) },
+    RELATIONSHIP: { description: "Reference to a record of another entity. Needs 'relatedEntity' (name or ID).", rules: z.object({}) },
+    FILE: { description: "Uploaded file.", rules: z.object({ maxSize: z.number().int().positive().optional() }) },
+    COLOR: { description: "Color value.", rules: z.object({}) },
+};
+
+export interface FieldDefinition {
+    name: string;
+    label: string;
+    type: string;
+    multiplicity: 'ONE' | 'MANY';
+    /** Undefined leaves the live required rule as it is (e.g. a CONDITION rule on updates). */
+    required?: boolean;
+    defaultValue?: any;
+    unique?: boolean;
+    indexed?: boolean;
+    /** Type-specific rules, see FIELD_TYPES. */
+    rules?: Record<string, any>;
+    /** CHOICE options. */
+    options?: ChoiceOption[];
+    /** ID of the related entity, for RELATIONSHIP fields. */
+    relatedEntityId?: string;
+}
+
+export function normalizeChoiceOptions(options: ChoiceOption[] = []): { name: string, label: string }[] {
+    return options.map(o => (typeof o === 'string' ? { name: o, label: o } : { name: o.name, label: o.label || o.name }));
+}
+
+/** Lines describing every supported type and its rules, for list_field_types. */
+export function describeFieldTypes(): string[] {
+    return Object.entries(FIELD_TYPES).map(([type, info]) => {
+        const rules = Object.keys(info.rules.shape);
+        return `${type}: ${info.description}${rules.length > 0 ? ` Rules: ${rules.join(', ')}.` : ''}`;
+    });
+}
+
+/**
+ * Checks a field definition before anything is sent: known type, the type's own rules,
+ * options/target for CHOICE and RELATIONSHIP, and a default value that fits the field.
+ * With `allowUnknownType` (updates of existing fields), a type this server doesn't model
+ * only gets the checks that don't depend on the type.
+ */
+export function validateFieldDefinition(field: FieldDefinition, options: { allowUnknownType?: boolean } = {}): string[] {
+    const type = field.type.toUpperCase();
+    const info = FIELD_TYPES[type];
+    if (!info && !options.allowUnknownType) {
+        return [`Unsupported field type '${field.type}'.${didYouMean(type, Object.keys(FIELD_TYPES))} Use list_field_types to see the supported types.`];
+    }
+
+    const errors: string[] = [];
+    const parsed = info?.rules.strict().safeParse(field.rules || {});
+    if (parsed && !parsed.success) {
+        errors.push(...parsed.error.issues.map(issue => issue.code === 'unrecognized_keys'
+            ? `rules: ${issue.keys.join(', ')} not supported for ${type}. Supported: ${Object.keys(info!.rules.shape).join(', ') || 'none'}.`
+            : `rules.${issue.path.join('.')}: ${issue.message}`));
+    }
+    const rules = field.rules || {};
+    if (rules.minValue !== undefined && rules.maxValue !== undefined && rules.minValue > rules.maxValue) {
+        errors.push("rules: minValue is greater than maxValue.");
+    }
+    if (rules.minLength !== undefined && rules.maxLength !== undefined && rules.minLength > rules.maxLength) {
+        errors.push("rules: minLength is greater than maxLength.");
+    }
+
+    if (type === 'CHOICE' && !field.options?.length) {
+        errors.push("CHOICE fields need at least one option.");
+    }
+    if (type !== 'CHOICE' && field.options?.length) {
+        errors.push(`'options' only apply to CHOICE fields, not ${type}.`);
+    }
+    if (type === 'RELATIONSHIP' && !field.relatedEntityId) {
+        errors.push("RELATIONSHIP fields need the related entity.");
+    }
+    if (field.unique && field.multiplicity === 'MANY') {
+        errors.push("Fields with multiplicity MANY can't be unique.");
+    }
+
+    if (info && field.defaultValue !== undefined) {
+        // Same checks record payloads get, against a one-field entity
+        const metadata = {
+            fields: [{
+                name: field.name,
+                type,
+                multiplicity: field.multiplicity,
+                typeRules: type === 'CHOICE' ? { values: normalizeChoiceOptions(field.options) } : undefined,
+            }],
+        };
+        errors.push(...validateRecordData(metadata, { [field.name]: field.defaultValue }, 'update')
+            .map(error => `defaultValue: ${error}`));
+    }
+    return errors;
+}
+
+/** Labels come back either as plain text or as `{ defaultValue, translation }`. */
+export function labelText(label: any): string | undefined {
+    return label && typeof label === 'object' ? label.defaultValue : label;
+}
+
+/**
+ * The live required setting of a field: true or false for plain rules, or the rule type
+ * (e.g. `CONDITION`) when it depends on the record and can't be told as a boolean.
+ */
+export function requiredRule(field: any): boolean | string {
+    const type = field.generalRules?.required?.type;
+    if (!type) return field.required === true;
+    if (type === 'ALWAYS' || type === 'NEVER') return type === 'ALWAYS';
+    return type;
+}
+
+/**
+ * The editable definition of a live field, as returned by `/entities/{id}`. `required` is
+ * left undefined for conditional rules, so writing the definition back keeps them.
+ */
+export function fieldDefinitionFromMetadata(field: any): FieldDefinition {
+    const { values, entityId, entityLabel, ...rules } = field.typeRules || {};
+    const required = requiredRule(field);
+    return {
+        name: field.name,
+        label: labelText(field.label) || field.name,
+        type: String(field.type || '').toUpperCase(),
+        multiplicity: field.multiplicity === 'MANY' ? 'MANY' : 'ONE',
+        required: typeof required === 'boolean' ? required : undefined,
+        defaultValue: field.defaultValue,
+        unique: field.unique,
+        indexed: field.indexable,
+        rules: Object.keys(rules).length > 0 ? rules : undefined,
+        options: Array.isArray(values) ? values.map((v: any) => ({ name: v.name, label: labelText(v.label) })) : undefined,
+        relatedEntityId: entityId,
+    };
+}
+
+function translatable(text: string) {
+    return { defaultValue: text, translation: { en: text } };
+}
+
+/** Builds the builder API payload that creates or updates a field. */
+export function buildFieldPayload(field: FieldDefinition): any {
+    const type = field.type.toUpperCase();
+    const payload: any = {
+        name: field.name,
+        label: translatable(field.label),
+        type,
+        multiplicity: field.multiplicity,
+    };
+    if (field.required !== undefined) payload.required = field.required;
+    if (field.defaultValue !== undefined) payload.defaultValue = field.defaultValue;
+    if (field.unique !== undefined) payload.unique = field.unique;
+    if (field.indexed !== undefined) payload.indexable = field.indexed;
+
+    const typeRules: any = { ...(field.rules || {}) };
+    if (type === 'CHOICE') {
+        typeRules.values = normalizeChoiceOptions(field.options).map(o => ({ name: o.name, label: translatable(o.label) }));
+    }
+    if (type === 'RELATIONSHIP') {
+        if (!field.relatedEntityId) {
+            throw new Error(`Relationship field '${field.name}' needs a related entity.`);
+        }
+        typeRules.entityId = field.relatedEntityId;
+    }
+    if (Object.keys(typeRules).length > 0) payload.typeRules = typeRules;
+    return payload;
+}
@@ -17,9 +17,13 @@ import {
 } from "@modelcontextprotocol/sdk/types.js";
 import { tools } from "./tools.js";
 import { ragSystem } from "./rag.js";
-import { builderClient, loginToSlingr } from "./slingr-client.js";
-import fs from 'fs';
-import path from 'path';
+import { extractMarkdownSection } from "./doc-chunker.js";
+import { readDocument } from "./doc-loaders.js";
+import { enforcePolicy, withPolicyArguments } from "./policy.js";
+import { getClients, loginToSlingr } from "./slingr-client.js";
+import { isMetadataCacheEnabled, isMetadataWarmUpEnabled } from "./metadata-cache.js";
+import { fetchEntities, warmUpMetadata } from "./metadata.js";
+import { buildEntityGraph, renderEntityGraph } from "./er-diagram.js";
 
 // 1. Server Initialization
 const server = new Server(
@@ -45,6 +49,18 @@ server.setRequestHandler(ListResourcesRequestSchema, async () => {
                 name: "Slingr Entities",
                 description: "List of all entities in the application",
                 mimeType: "application/json",
+            },
+            {
+                uri: "slingr://diagrams/er.mmd",
+                name: "Entity Relationship Diagram (Mermaid)",
+                description: "Relationships between all entities of the application, as a Mermaid erDiagram",
+                mimeType: "text/vnd.mermaid",
+            },
+            {
+                uri: "slingr://diagrams/er.dot",
+                name: "Entity Relationship Diagram (Graphviz)",
+                description: "Relationships between all entities of the application, as Graphviz DOT",
+                mimeType: "text/vnd.graphviz",
             }
         ],
     };
@@ -54,23 +70,48 @@ server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
     const uri = request.params.uri;
 
     if (uri === "slingr://entities") {
-        const response = await builderClient.get("/folders?_fields=entity,folderPath&_size=100&type=ENTITY");
+        const { builderClient } = getClients();
+        const entities = await fetchEntities(builderClient);
         return {
             contents: [
                 {
                     uri,
                     mimeType: "application/json",
-                    text: JSON.stringify(response.data.items, null, 2),
+                    text: JSON.stringify(entities, null, 2),
+                },
+            ],
+        };
+    }
+
+    if (uri === "slingr://diagrams/er.mmd" || uri === "slingr://diagrams/er.dot") {
+        const { builderClient } = getClients();
+        const format = uri.endsWith(".dot") ? "dot" : "mermaid";
+        const graph = await buildEntityGraph(builderClient, { depth: 0, includeFields: false });
+        return {
+            contents: [
+                {
+                    uri,
+                    mimeType: format === "dot" ? "text/vnd.graphviz" : "text/vnd.mermaid",
+                    text: renderEntityGraph(graph, format, false),
                 },
             ],
         };
     }
 
     if (uri.startsWith("slingr://docs/")) {
-        const filePath = uri.replace("slingr://docs/", "");
-        const fullPath = path.join(process.cwd(), 'docs', filePath);
-        if (fs.existsSync(fullPath)) {
-            const content = fs.readFileSync(fullPath, 'utf-8');
+        // A `#heading` fragment (as cited by search_documentation) narrows it to that section.
+        // HTML and OpenAPI files are served as the Markdown their citations refer to.
+        const [filePath, anchor] = uri.replace("slingr://docs/", "").split('#');
+        const document = readDocument(filePath);
+        if (document) {
+            let content = document.markdown;
+            if (anchor) {
+                const section = extractMarkdownSection(content, anchor);
+                if (section === undefined) {
+                    throw new Error(`Section '#${anchor}' not found in ${filePath}`);
+                }
+                content = section;
+            }
             return {
                 contents: [
                     {
@@ -160,7 +201,7 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
         tools: Object.values(tools).map(t => ({
             name: t.name,
             description: t.description,
-            inputSchema: t.inputSchema,
+            inputSchema: withPolicyArguments(t),
         })),
     };
 });
@@ -175,6 +216,10 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
     }
 
     try {
+        const policyResult = await enforcePolicy(tool, args);
+        if (policyResult) {
+            return policyResult;
+        }
         return await tool.execute(args);
     } catch (error: any) {
         const errorMessage = error.response
@@ -197,6 +242,12 @@ async function main() {
         process.exit(1);
     }
 
+    if (isMetadataCacheEnabled() && isMetadataWarmUpEnabled()) {
+        warmUpMetadata(getClients().builderClient)
+            .then(({ entities, groups }) => console.error(`🗂️ Metadata cache warmed: ${entities} entities, ${groups} groups.`))
+            .catch(err => console.error("Metadata cache warm-up failed:", err));
+    }
+
     const transport = new StdioServerTransport();
     await server.connect(transport);
     console.error("Slingr MCP Server (v1.0.0) running on stdio");
@@ -0,0 +1,143 @@
+import type { AxiosInstance } from "axios";
+
+const CACHE_TTL_MS = Number(process.env.SLINGR_METADATA_CACHE_TTL_SECONDS ?? 300) * 1000;
+
+export type MetadataKind = 'entities' | 'groups' | 'entity' | 'permissions';
+
+interface CacheEntry {
+    environment: string;
+    kind: MetadataKind;
+    key: string;
+    value: Promise<any>;
+    storedAt: number;
+    /** Every identifier of the entity the entry belongs to (ID, name, the reference used). */
+    aliases: Set<string>;
+}
+
+const entries = new Map<string, CacheEntry>();
+
+type MetadataChangeListener = (environment: string | undefined, entity?: string) => void;
+const changeListeners: MetadataChangeListener[] = [];
+
+// Builder clients are created once per environment, so they identify the environment for the cache
+const clientEnvironments = new WeakMap<AxiosInstance, string>();
+
+export function isMetadataCacheEnabled(): boolean {
+    return CACHE_TTL_MS > 0;
+}
+
+export function isMetadataWarmUpEnabled(): boolean {
+    return process.env.SLINGR_METADATA_WARMUP === 'true';
+}
+
+/**
+ * Ties a builder client to its environment and drops the affected cache entries whenever
+ * a request through it changes something (anything other than GET).
+ */
+export function bindMetadataCache(builderClient: AxiosInstance, environment: string) {
+    clientEnvironments.set(builderClient, environment);
+    builderClient.interceptors.response.use((response) => {
+        const method = (response.config.method || 'get').toLowerCase();
+        if (method !== 'get') {
+            const entity = response.config.url?.match(/^\/?entities\/([^/?]+)/)?.[1];
+            if (entity) {
+                invalidateMetadataCache(environment, decodeURIComponent(entity));
+            } else if (/^\/?entities(\?|$)/.test(response.config.url || '')) {
+                dropEntries(e => e.environment === environment && e.kind === 'entities');
+                notifyChange(environment);
+            } else {
+                invalidateMetadataCache(environment);
+            }
+        }
+        return response;
+    });
+}
+
+/**
+ * Registers a callback for every invalidation, whether from a change made through the
+ * builder API or a manual refresh, so indexes derived from the metadata can update.
+ */
+export function onMetadataChange(listener: MetadataChangeListener) {
+    changeListeners.push(listener);
+}
+
+function notifyChange(environment: string | undefined, entity?: string) {
+    for (const listener of changeListeners) {
+        try {
+            listener(environment, entity);
+        } catch (error: any) {
+            console.error(`⚠️ Metadata change listener failed: ${error.message}`);
+        }
+    }
+}
+
+function dropEntries(predicate: (entry: CacheEntry) => boolean): number {
+    let dropped = 0;
+    for (const [id, entry] of entries) {
+        if (predicate(entry)) {
+            entries.delete(id);
+            dropped++;
+        }
+    }
+    return dropped;
+}
+
+/**
+ * Returns the cached value for `kind`/`key` in the client's environment, loading it on a
+ * miss or once it is older than the TTL. Concurrent misses share one request, and each
+ * caller gets its own copy so mutating the result can't corrupt the cache.
+ */
+export async function cachedMetadata<T>(builderClient: AxiosInstance, kind: MetadataKind, key: string, load: () => Promise<T>): Promise<T> {
+    const environment = clientEnvironments.get(builderClient);
+    if (!environment || !isMetadataCacheEnabled()) {
+        return load();
+    }
+
+    const id = `${environment}|${kind}|${key}`;
+    let entry = entries.get(id);
+    if (!entry || Date.now() - entry.storedAt >= CACHE_TTL_MS) {
+        const aliases = new Set(kind === 'entity' || kind === 'permissions' ? [key] : []);
+        const value = load().then((result: any) => {
+            if (kind === 'entity') {
+                [result?.id, result?.name].filter(Boolean).forEach(alias => aliases.add(alias));
+            }
+            return result;
+        });
+        entry = { environment, kind, key, value, storedAt: Date.now(), aliases };
+        entries.set(id, entry);
+        // Failures are not cached: the next call tries again
+        value.catch(() => {
+            if (entries.get(id) === entry) entries.delete(id);
+        });
+    }
+    return structuredClone(await entry.value);
+}
+
+/**
+ * Drops cached metadata of an environment: everything, or only what belongs to one entity
+ * (matched by any of its identifiers) plus the entity list. Returns the number of entries dropped.
+ */
+export function invalidateMetadataCache(environment?: string, entity?: string): number {
+    notifyChange(environment, entity);
+    if (!entity) {
+        return dropEntries(e => !environment || e.environment === environment);
+    }
+
+    // The entity may be cached under its ID and its name, so collect every known alias first
+    const aliases = new Set([entity]);
+    for (const entry of entries.values()) {
+        if ((!environment || entry.environment === environment) && entry.aliases.has(entity)) {
+            entry.aliases.forEach(alias => aliases.add(alias));
+        }
+    }
+    return dropEntries(e => (!environment || e.environment === environment) &&
+        (e.kind === 'entities' || [...e.aliases].some(alias => aliases.has(alias))));
+}
+
+export function metadataCacheStats(environment?: string): Record<MetadataKind, number> {
+    const stats: Record<MetadataKind, number> = { entities: 0, groups: 0, entity: 0, permissions: 0 };
+    for (const entry of entries.values()) {
+        if (!environment || entry.environment === environment) stats[entry.kind]++;
+    }
+    return stats;
+}
@@ -0,0 +1,110 @@
+import type { AxiosInstance } from "axios";
+import { mapWithConcurrency } from "./concurrency.js";
+import { cachedMetadata } from "./metadata-cache.js";
+import { didYouMean } from "./suggest.js";
+
+const PAGE_SIZE = 100;
+
+export interface EntitySummary {
+    id: string;
+    name: string;
+    label: string;
+    fullPath: string;
+}
+
+export interface GroupSummary {
+    id: string;
+    name: string;
+    label: string;
+}
+
+// The builder listings cap `_size`, so walk `_offset` until a short page comes back
+async function fetchAllPages(builderClient: AxiosInstance, url: string): Promise<any[]> {
+    const items: any[] = [];
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+        const response = await builderClient.get(`${url}&_size=${PAGE_SIZE}&_offset=${offset}`);
+        const page = response.data.items || [];
+        items.push(...page);
+        if (page.length < PAGE_SIZE) break;
+    }
+    return items;
+}
+
+/** Every entity of the app, as listed in the builder folders. */
+export async function fetchEntities(builderClient: AxiosInstance): Promise<EntitySummary[]> {
+    return cachedMetadata(builderClient, 'entities', '', async () => {
+        const rawItems = await fetchAllPages(builderClient, "/folders?_fields=entity,folderPath&type=ENTITY");
+        return rawItems.map((e: any) => ({
+            id: e.entity.id,
+            name: e.entity.name ?? e.entity.label,
+            label: e.entity.label,
+            fullPath: e.folderPath
+        }));
+    });
+}
+
+/** Every group (role) of the app. */
+export async function fetchGroups(builderClient: AxiosInstance): Promise<GroupSummary[]> {
+    return cachedMetadata(builderClient, 'groups', '', async () => {
+        const rawItems = await fetchAllPages(builderClient, "/metadata?_fields=name,label&_sortField=label&_sortType=ASC&_type=group");
+        return rawItems.map((g: any) => ({
+            id: g.id,
+            name: g.name,
+            label: g.label
+        }));
+    });
+}
+
+/** Entities whose folder path starts with `folderPath` (case-insensitive). */
+export function filterByFolderPath<T extends EntitySummary>(entities: T[], folderPath?: string): T[] {
+    if (!folderPath) return entities;
+    const prefix = folderPath.toLowerCase();
+    return entities.filter(e => (e.fullPath || '').toLowerCase().startsWith(prefix));
+}
+
+export function matchesEntity(entity: EntitySummary, ref: string): boolean {
+    return entity.id === ref || entity.name === ref || entity.label === ref || entity.fullPath === ref;
+}
+
+/** Finds an entity by ID, name, label or folder path; the error suggests close names. */
+export async function resolveEntity(builderClient: AxiosInstance, ref: string): Promise<EntitySummary> {
+    const entities = await fetchEntities(builderClient);
+    const entity = entities.find(e => matchesEntity(e, ref));
+    if (!entity) {
+        throw new Error(`Entity '${ref}' not found.${didYouMean(ref, entities.map(e => e.name))}`);
+    }
+    return entity;
+}
+
+/** Finds a field of an entity's metadata by ID or name. */
+export function resolveField(metadata: any, ref: string): any {
+    const fields: any[] = metadata.fields || [];
+    const field = fields.find(f => f.id === ref || f.name === ref);
+    if (!field) {
+        throw new Error(`Field '${ref}' not found in '${metadata.name}'.${didYouMean(ref, fields.map(f => f.name))}`);
+    }
+    return field;
+}
+
+async function loadEntityMetadata(builderClient: AxiosInstance, entity: string): Promise<any> {
+    const response = await builderClient.get(`/entities/${entity}`);
+    return response.data;
+}
+
+/**
+ * Full builder metadata of one entity (fields, views, actions...), by ID or name. `fresh`
+ * skips the cache, for reads whose state is written back.
+ */
+export async function fetchEntityMetadata(builderClient: AxiosInstance, entity: string, options: { fresh?: boolean } = {}): Promise<any> {
+    if (options.fresh) {
+        return loadEntityMetadata(builderClient, entity);
+    }
+    return cachedMetadata(builderClient, 'entity', entity, () => loadEntityMetadata(builderClient, entity));
+}
+
+/** Loads the entity list, the groups and every entity's metadata into the cache. */
+export async function warmUpMetadata(builderClient: AxiosInstance): Promise<{ entities: number, groups: number }> {
+    const [entities, groups] = await Promise.all([fetchEntities(builderClient), fetchGroups(builderClient)]);
+    await mapWithConcurrency(entities, 4, entity => fetchEntityMetadata(builderClient, entity.id));
+    return { entities: entities.length, groups: groups.length };
+}
@@ -0,0 +1,148 @@
+import type { AxiosInstance } from "axios";
+import fs from "fs";
+import path from "path";
+
+const CHANGELOG_FILE = process.env.SLINGR_CHANGELOG_FILE || path.join(process.cwd(), 'data', 'push-changelog.md');
+
+export const CHANGE_CATEGORIES = ['entities', 'fields', 'views', 'actions', 'permissions', 'other'] as const;
+export type ChangeCategory = typeof CHANGE_CATEGORIES[number];
+export type ChangeKind = 'added' | 'modified' | 'removed';
+
+export interface PendingChange {
+    category: ChangeCategory;
+    kind: ChangeKind;
+    name: string;
+    /** The owning entity, for fields, views and actions when the API says so. */
+    parent?: string;
+    type: string;
+}
+
+export interface PendingChangesSummary {
+    total: number;
+    changes: PendingChange[];
+}
+
+const KIND_ALIASES: Record<string, ChangeKind> = {
+    ADDED: 'added', ADD: 'added', NEW: 'added', CREATED: 'added', CREATE: 'added',
+    MODIFIED: 'modified', MODIFY: 'modified', UPDATED: 'modified', UPDATE: 'modified', CHANGED: 'modified',
+    REMOVED: 'removed', REMOVE: 'removed', DELETED: 'removed', DELETE: 'removed',
+};
+
+function categoryOf(type: string): ChangeCategory {
+    const upper = type.toUpperCase();
+    if (/PERMISSION|GROUP|ROLE/.test(upper)) return 'permissions';
+    if (/FIELD/.test(upper)) return 'fields';
+    if (/VIEW/.test(upper)) return 'views';
+    if (/ACTION/.test(upper)) return 'actions';
+    if (/ENTITY/.test(upper)) return 'entities';
+    return 'other';
+}
+
+function kindOf(item: any): ChangeKind | undefined {
+    for (const key of ['action', 'changeType', 'operation', 'status', 'change']) {
+        const value = item[key];
+        if (typeof value === 'string' && KIND_ALIASES[value.toUpperCase()]) {
+            return KIND_ALIASES[value.toUpperCase()];
+        }
+    }
+    return undefined;
+}
+
+function textOf(value: any): string | undefined {
+    if (typeof value === 'string') return value;
+    if (value && typeof value === 'object' && typeof value.defaultValue === 'string') return value.defaultValue;
+    return undefined;
+}
+
+/**
+ * Pulls the individual changes out of the `/development/detectPushChanges` response. The
+ * payload nests changes at different depths depending on the metadata type, so any
+ * object that carries a change kind and a name counts as a change.
+ */
+export function summarizePendingChanges(raw: any): PendingChangesSummary {
+    const changes: PendingChange[] = [];
+
+    const visit = (node: any, parent: string | undefined, inheritedType: string | undefined) => {
+        if (Array.isArray(node)) {
+            node.forEach(child => visit(child, parent, inheritedType));
+            return;
+        }
+        if (!node || typeof node !== 'object') return;
+
+        // A field's own `type` is its data type (TEXT...), so prefer whichever hint names a metadata kind
+        const hints = [node.metadataType, node.objectType, inheritedType, node.type].filter(h => typeof h === 'string' && h);
+        const type: string = hints.find(h => categoryOf(h) !== 'other') || hints[0] || '';
+        const name = textOf(node.fullName) || textOf(node.label) || textOf(node.name) || textOf(node.path);
+        const kind = kindOf(node);
+        if (kind && name) {
+            changes.push({ category: categoryOf(type), kind, name, parent, type });
+        }
+
+        const childParent = categoryOf(type) === 'entities' && name ? name : parent;
+        for (const [key, value] of Object.entries(node)) {
+            if (value && typeof value === 'object') {
+                // Collections are often keyed by type ("fields": [...]), which tells the children's type
+                visit(value, childParent, Array.isArray(value) ? key : type);
+            }
+        }
+    };
+    visit(raw, undefined, undefined);
+
+    return { total: changes.length, changes };
+}
+
+export async function fetchPendingChanges(builderClient: AxiosInstance): Promise<any> {
+    const response = await builderClient.get("/development/detectPushChanges?skipLog=true");
+    return response.data;
+}
+
+function qualifiedName(change: PendingChange): string {
+    return change.parent && !change.name.startsWith(change.parent) ? `${change.parent}.${change.name}` : change.name;
+}
+
+export function renderPendingChanges(summary: PendingChangesSummary): string {
+    if (summary.total === 0) {
+        return "No pending changes were found in the push preview.";
+    }
+    const lines = [`${summary.total} pending changes:`];
+    for (const category of CHANGE_CATEGORIES) {
+        const inCategory = summary.changes.filter(c => c.category === category);
+        if (inCategory.length === 0) continue;
+        lines.push('', `## ${category[0].toUpperCase()}${category.slice(1)} (${inCategory.length})`);
+        for (const kind of ['added', 'modified', 'removed'] as ChangeKind[]) {
+            const items = inCategory.filter(c => c.kind === kind);
+            if (items.length === 0) continue;
+            const symbol = kind === 'added' ? '+' : kind === 'removed' ? '-' : '~';
+            lines.push(`${kind}:`);
+            lines.push(...items.map(c => `  ${symbol} ${qualifiedName(c)}`));
+        }
+    }
+    return lines.join('\n');
+}
+
+/** Appends one push to the local changelog (Markdown, newest last). */
+export function appendChangelogEntry(environment: string, message: string, summary: PendingChangesSummary): string {
+    const counts = CHANGE_CATEGORIES
+        .map(category => [category, summary.changes.filter(c => c.category === category).length] as const)
+        .filter(([, n]) => n > 0)
+        .map(([category, n]) => `${n} ${category}`)
+        .join(', ');
+    const entry = [
+        `## ${new Date().toISOString()} — ${environment}`,
+        '',
+        message,
+        '',
+        `Changes: ${counts || 'none detected'}`,
+        '',
+        ...summary.changes.map(c => `- ${c.kind} ${c.category}: ${qualifiedName(c)}`),
+        '',
+        '',
+    ].join('\n');
+
+    fs.mkdirSync(path.dirname(CHANGELOG_FILE), { recursive: true });
+    if (!fs.existsSync(CHANGELOG_FILE)) {
+        fs.writeFileSync(CHANGELOG_FILE, '# Slingr push changelog\n\n', 'utf-8');
+    }
+    fs.appendFileSync(CHANGELOG_FILE, entry, 'utf-8');
+    return CHANGELOG_FILE;
+}
@@ -0,0 +1,182 @@
+import type { AxiosInstance } from "axios";
+import { mapWithConcurrency } from "./concurrency.js";
+import { toCsvRow } from "./csv.js";
+import { fetchEntities, fetchGroups, filterByFolderPath, matchesEntity, type EntitySummary, type GroupSummary } from "./metadata.js";
+import { fetchEntityPermissions, formatPermission, matchesGroup, TOP_LEVEL_PERMISSIONS } from "./permissions.js";
+
+const MATRIX_PERMISSIONS = [...TOP_LEVEL_PERMISSIONS, 'canImport', 'canExport'];
+
+export interface MatrixOptions {
+    groups?: string[];
+    entityPath?: string;
+    entities?: string[];
+    includeFields?: boolean;
+    includeActions?: boolean;
+}
+
+export interface MatrixCell {
+    entity: EntitySummary;
+    group: GroupSummary;
+    permissions: Record<string, string>;
+    fields?: { name: string; permission: string }[];
+    actions?: { name: string; permission: string; parameters?: { name: string; permission: string }[] }[];
+}
+
+export interface PermissionMatrix {
+    entities: EntitySummary[];
+    groups: GroupSummary[];
+    cells: MatrixCell[];
+    errors: { entity: string; error: string }[];
+}
+
+function describe(permObj: any): string {
+    const formatted = formatPermission(permObj);
+    if (formatted === undefined) return '';
+    return typeof formatted === 'string' ? formatted : (formatted.type || JSON.stringify(formatted));
+}
+
+/** Collects the permissions of every (entity, group) pair selected by `options`. */
+export async function buildPermissionMatrix(builderClient: AxiosInstance, options: MatrixOptions = {}): Promise<PermissionMatrix> {
+    let entities = filterByFolderPath(await fetchEntities(builderClient), options.entityPath);
+    if (options.entities?.length) {
+        entities = entities.filter(e => options.entities!.some(ref => matchesEntity(e, ref)));
+    }
+
+    let groups = await fetchGroups(builderClient);
+    if (options.groups?.length) {
+        groups = groups.filter(g => options.groups!.some(ref => g.id === ref || g.name === ref || g.label === ref));
+    }
+
+    const cells: MatrixCell[] = [];
+    const errors: { entity: string; error: string }[] = [];
+
+    await mapWithConcurrency(entities, 4, async (entity) => {
+        let permissionsArray: any[];
+        try {
+            permissionsArray = await fetchEntityPermissions(builderClient, entity.id);
+        } catch (error: any) {
+            errors.push({ entity: entity.fullPath || entity.label, error: error.message });
+            return;
+        }
+
+        for (const group of groups) {
+            const groupPerms = permissionsArray.find((p: any) =>
+                matchesGroup(p, group.id) || matchesGroup(p, group.name)
+            );
+
+            const cell: MatrixCell = { entity, group, permissions: {} };
+            MATRIX_PERMISSIONS.forEach(perm => {
+                const value = groupPerms?.[perm];
+                cell.permissions[perm] = typeof value === 'boolean' ? String(value) : describe(value);
+            });
+
+            if (options.includeFields) {
+                cell.fields = (groupPerms?.fields || []).map((f: any) => ({
+                    name: f.name,
+                    permission: describe(f.permission)
+                }));
+            }
+
+            if (options.includeActions) {
+                cell.actions = (groupPerms?.actions || []).map((a: any) => ({
+                    name: a.name,
+                    permission: describe(a.permission),
+                    parameters: a.parameters?.map((p: any) => ({ name: p.name, permission: describe(p.permission) }))
+                }));
+            }
+
+            cells.push(cell);
+        }
+    });
+
+    // Requests finish out of order; keep the output stable
+    const entityOrder = new Map(entities.map((e, i) => [e.id, i]));
+    const groupOrder = new Map(groups.map((g, i) => [g.id, i]));
+    cells.sort((a, b) =>
+        entityOrder.get(a.entity.id)! - entityOrder.get(b.entity.id)! ||
+        groupOrder.get(a.group.id)! - groupOrder.get(b.group.id)!
+    );
+
+    return { entities, groups, cells, errors };
+}
+
+function markdownTable(headers: string[], rows: string[][]): string {
+    const escape = (v: string) => (v || '').replace(/\|/g, '\\|').replace(/\n/g, ' ');
+    return [
+        `| ${headers.join(' | ')} |`,
+        `| ${headers.map(() => '---').join(' | ')} |`,
+        ...rows.map(r => `| ${r.map(escape).join(' | ')} |`)
+    ].join('\n');
+}
+
+function renderMarkdown(matrix: PermissionMatrix): string {
+    const sections = [
+        `# Permission matrix\n\n${matrix.entities.length} entities × ${matrix.groups.length} groups`,
+        `## Entity permissions\n\n` + markdownTable(
+            ['Entity', 'Group', ...MATRIX_PERMISSIONS],
+            matrix.cells.map(c => [c.entity.fullPath || c.entity.label, c.group.label, ...MATRIX_PERMISSIONS.map(p => c.permissions[p])])
+        )
+    ];
+
+    if (matrix.cells.some(c => c.fields)) {
+        sections.push(`## Field permissions\n\n` + markdownTable(
+            ['Entity', 'Group', 'Field', 'Permission'],
+            matrix.cells.flatMap(c => (c.fields || []).map(f => [c.entity.fullPath || c.entity.label, c.group.label, f.name, f.permission]))
+        ));
+    }
+
+    if (matrix.cells.some(c => c.actions)) {
+        sections.push(`## Action permissions\n\n` + markdownTable(
+            ['Entity', 'Group', 'Action', 'Permission', 'Parameters'],
+            matrix.cells.flatMap(c => (c.actions || []).map(a => [
+                c.entity.fullPath || c.entity.label,
+                c.group.label,
+                a.name,
+                a.permission,
+                (a.parameters || []).map(p => `${p.name}: ${p.permission}`).join(', ')
+            ]))
+        ));
+    }
+
+    if (matrix.errors.length > 0) {
+        sections.push(`## Errors\n\n` + matrix.errors.map(e => `- ${e.entity}: ${e.error}`).join('\n'));
+    }
+
+    return sections.join('\n\n');
+}
+
+// Long format (one row per permission) so the same file holds entity, field and action levels
+function renderCsv(matrix: PermissionMatrix): string {
+    const rows = [toCsvRow(['entity', 'entityPath', 'group', 'level', 'item', 'permission'])];
+    for (const c of matrix.cells) {
+        const base = [c.entity.name, c.entity.fullPath, c.group.name];
+        MATRIX_PERMISSIONS.forEach(p => rows.push(toCsvRow([...base, 'entity', p, c.permissions[p]])));
+        c.fields?.forEach(f => rows.push(toCsvRow([...base, 'field', f.name, f.permission])));
+        c.actions?.forEach(a => {
+            rows.push(toCsvRow([...base, 'action', a.name, a.permission]));
+            a.parameters?.forEach(p => rows.push(toCsvRow([...base, 'parameter', `${a.name}.${p.name}`, p.permission])));
+        });
+    }
+    return rows.join('\n');
+}
+
+function renderJson(matrix: PermissionMatrix): string {
+    return JSON.stringify({
+        groups: matrix.groups,
+        entities: matrix.entities.map(entity => ({
+            ...entity,
+            groups: Object.fromEntries(matrix.cells
+                .filter(c => c.entity.id === entity.id)
+                .map(c => [c.group.name, { ...c.permissions, fields: c.fields, actions: c.actions }]))
+        })),
+        errors: matrix.errors.length > 0 ? matrix.errors : undefined
+    }, null, 2);
+}
+
+export function renderPermissionMatrix(matrix: PermissionMatrix, format: 'markdown' | 'csv' | 'json'): string {
+    switch (format) {
+        case 'csv': return renderCsv(matrix);
+        case 'json': return renderJson(matrix);
+        default: return renderMarkdown(matrix);
+    }
+}
@@ -0,0 +1,231 @@
+import type { AxiosInstance } from "axios";
+import fs from "fs";
+import path from "path";
+import { fetchEntities, filterByFolderPath, matchesEntity, type EntitySummary } from "./metadata.js";
+import {
+    applyGroupUpdate,
+    buildGroupUpdate,
+    diffGroupPermissions,
+    fetchEntityPermissions,
+    findGroupPermissions,
+    groupToUpdates,
+    matchesGroup,
+    renderPermissionDiff,
+} from "./permissions.js";
+
+const SNAPSHOTS_DIR = process.env.SLINGR_SNAPSHOTS_DIR || path.join(process.cwd(), 'data/snapshots');
+
+/** Bumped whenever the file layout changes, so old snapshots are rejected instead of misread. */
+export const SNAPSHOT_VERSION = 1;
+
+export interface SnapshotEntity extends EntitySummary {
+    permissions: any[];
+}
+
+export interface PermissionSnapshot {
+    version: number;
+    createdAt: string;
+    environment: string;
+    description?: string;
+    entities: SnapshotEntity[];
+}
+
+export interface SnapshotScope {
+    entities?: string[];
+    entityPath?: string;
+    groups?: string[];
+}
+
+export interface RestoreOptions {
+    /** Restore a snapshot taken in another environment, matching its entities by name. */
+    remapByName?: boolean;
+}
+
+function selectEntities<T extends EntitySummary>(entities: T[], scope: SnapshotScope): T[] {
+    let selected = filterByFolderPath(entities, scope.entityPath);
+    if (scope.entities?.length) {
+        selected = selected.filter(e => scope.entities!.some(ref => matchesEntity(e, ref)));
+    }
+    return selected;
+}
+
+function selectGroups(permissions: any[], groups?: string[]): any[] {
+    if (!groups?.length) return permissions;
+    return permissions.filter(p => groups.some(g => matchesGroup(p, g)));
+}
+
+/** Saves the full permission state of the selected entities (default: all) to a new snapshot file. */
+export async function createPermissionSnapshot(builderClient: AxiosInstance, environment: string, scope: SnapshotScope, description?: string) {
+    const entities = selectEntities(await fetchEntities(builderClient), scope);
+
+    const snapshot: PermissionSnapshot = {
+        version: SNAPSHOT_VERSION,
+        createdAt: new Date().toISOString(),
+        environment,
+        description,
+        entities: []
+    };
+
+    for (const entity of entities) {
+        const permissions = await fetchEntityPermissions(builderClient, entity.id, { fresh: true });
+        snapshot.entities.push({ ...entity, permissions: selectGroups(permissions, scope.groups) });
+    }
+
+    fs.mkdirSync(SNAPSHOTS_DIR, { recursive: true });
+    const fileName = `permissions-${environment}-${snapshot.createdAt.replace(/[:.]/g, '-')}.json`;
+    const filePath = path.join(SNAPSHOTS_DIR, fileName);
+    fs.writeFileSync(filePath, JSON.stringify(snapshot, null, 2), 'utf-8');
+
+    return { filePath, snapshot };
+}
+
+/** Accepts a file name inside the snapshots directory or any path. */
+export function loadPermissionSnapshot(snapshot: string): PermissionSnapshot {
+    const candidates = [path.resolve(snapshot), path.join(SNAPSHOTS_DIR, snapshot)];
+    const filePath = candidates.find(c => fs.existsSync(c));
+    if (!filePath) {
+        throw new Error(`Snapshot '${snapshot}' not found (looked in ${SNAPSHOTS_DIR}).`);
+    }
+
+    const data = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    if (data.version !== SNAPSHOT_VERSION) {
+        throw new Error(`Snapshot '${snapshot}' has version ${data.version}, expected ${SNAPSHOT_VERSION}.`);
+    }
+    return data;
+}
+
+export function listPermissionSnapshots() {
+    if (!fs.existsSync(SNAPSHOTS_DIR)) return [];
+    return fs.readdirSync(SNAPSHOTS_DIR)
+        .filter(f => f.endsWith('.json'))
+        .sort()
+        .map(fileName => {
+            try {
+                const data = JSON.parse(fs.readFileSync(path.join(SNAPSHOTS_DIR, fileName), 'utf-8'));
+                return {
+                    fileName,
+                    createdAt: data.createdAt,
+                    environment: data.environment,
+                    description: data.description,
+                    entities: data.entities?.length ?? 0
+                };
+            } catch {
+                return { fileName, error: "Unreadable snapshot file." };
+            }
+        });
+}
+
+/** Names of the snapshot entities a restore with `scope` writes to. */
+export function snapshotEntitiesInScope(snapshot: PermissionSnapshot, scope: SnapshotScope): string[] {
+    return selectEntities(snapshot.entities, scope).map(e => e.name);
+}
+
+export interface RestorePlanEntry {
+    entity: SnapshotEntity;
+    payload?: any;
+    diffs: string[];
+    error?: string;
+}
+
+/**
+ * Maps every selected snapshot group onto the live permission IDs (the same mapping
+ * update_entity_permissions uses) and returns the per-entity payloads plus readable diffs.
+ * Entity IDs differ between environments, so a snapshot from another environment is
+ * refused unless `remapByName` matches its entities to the live ones by name.
+ */
+export async function planPermissionRestore(builderClient: AxiosInstance, environment: string, snapshot: PermissionSnapshot, scope: SnapshotScope, options: RestoreOptions = {}): Promise<RestorePlanEntry[]> {
+    const remap = snapshot.environment !== environment;
+    if (remap && !options.remapByName) {
+        throw new Error(`Snapshot was taken in environment '${snapshot.environment}', not '${environment}'. Pass remapByName: true to restore it by entity name.`);
+    }
+    const liveEntities = remap ? await fetchEntities(builderClient) : [];
+    const plan: RestorePlanEntry[] = [];
+
+    for (const saved of selectEntities(snapshot.entities, scope)) {
+        let entity = saved;
+        if (remap) {
+            const match = liveEntities.find(e => e.name === saved.name);
+            if (!match) {
+                plan.push({ entity, diffs: [], error: `entity '${saved.name}' not found in environment '${environment}'` });
+                continue;
+            }
+            entity = { ...saved, id: match.id };
+        }
+
+        let live: any[];
+        try {
+            live = await fetchEntityPermissions(builderClient, entity.id, { fresh: true });
+        } catch (error: any) {
+            plan.push({ entity, diffs: [], error: error.message });
+            continue;
+        }
+
+        const groupUpdates: any[] = [];
+        const diffs: string[] = [];
+        for (const savedGroup of selectGroups(entity.permissions, scope.groups)) {
+            const liveGroup = findGroupPermissions(live, savedGroup.id) || findGroupPermissions(live, savedGroup.name);
+            if (!liveGroup) {
+                diffs.push(`Group '${savedGroup.label || savedGroup.name}' no longer exists (skipped).`);
+                continue;
+            }
+            const { groupUpdate, unmatched } = buildGroupUpdate(liveGroup, groupToUpdates(savedGroup));
+            groupUpdates.push(groupUpdate);
+            diffs.push(renderPermissionDiff(liveGroup.label || liveGroup.name, liveGroup, applyGroupUpdate(liveGroup, groupUpdate), unmatched));
+        }
+
+        plan.push({ entity, payload: groupUpdates.length > 0 ? { permissions: groupUpdates } : undefined, diffs });
+    }
+
+    return plan;
+}
+
+export function renderRestorePlan(plan: RestorePlanEntry[]): string {
+    return plan.map(entry => {
+        const header = `## ${entry.entity.fullPath || entry.entity.label}`;
+        if (entry.error) return `${header}\nCould not read live permissions: ${entry.error}`;
+        return `${header}\n${entry.diffs.join('\n\n')}`;
+    }).join('\n\n');
+}
+
+/** Differences between the snapshot and the current live permissions (snapshot → live). */
+export async function diffSnapshotWithLive(builderClient: AxiosInstance, snapshot: PermissionSnapshot, scope: SnapshotScope): Promise<string> {
+    const sections: string[] = [];
+
+    for (const entity of selectEntities(snapshot.entities, scope)) {
+        const header = `## ${entity.fullPath || entity.label}`;
+        let live: any[];
+        try {
+            live = await fetchEntityPermissions(builderClient, entity.id, { fresh: true });
+        } catch (error: any) {
+            sections.push(`${header}\nCould not read live permissions: ${error.message}`);
+            continue;
+        }
+
+        const lines: string[] = [];
+        for (const savedGroup of selectGroups(entity.permissions, scope.groups)) {
+            const label = savedGroup.label || savedGroup.name;
+            const liveGroup = findGroupPermissions(live, savedGroup.id) || findGroupPermissions(live, savedGroup.name);
+            if (!liveGroup) {
+                lines.push(`Group '${label}': removed since the snapshot`);
+                continue;
+            }
+            const changes = diffGroupPermissions(savedGroup, liveGroup);
+            if (changes.length > 0) {
+                lines.push(`Group '${label}':`, ...changes.map(c => `  ${c}`));
+            }
+        }
+        for (const liveGroup of selectGroups(live, scope.groups)) {
+            if (!entity.permissions.some(g => g.id === liveGroup.id || g.name === liveGroup.name)) {
+                lines.push(`Group '${liveGroup.label || liveGroup.name}': added since the snapshot`);
+            }
+        }
+
+        if (lines.length > 0) {
+            sections.push(`${header}\n${lines.join('\n')}`);
+        }
+    }
+
+    return sections.length > 0
+        ? `Changes since the snapshot (snapshot → live):\n\n${sections.join('\n\n')}`
+        : 'Live permissions match the snapshot.';
+}
@@ -0,0 +1,344 @@
+import type { AxiosInstance } from "axios";
+import { cachedMetadata } from "./metadata-cache.js";
+
+export const TOP_LEVEL_PERMISSIONS = ['canCreate', 'canAccess', 'canEdit', 'canDelete', 'canSeeAuditLogs'];
+
+async function loadEntityPermissions(builderClient: AxiosInstance, entityId: string): Promise<any[]> {
+    const response = await builderClient.get(`/entities/${entityId}/permissions?_size=100`);
+    const data = response.data;
+    const permissionsArray = data?.items || data?.permissions || (Array.isArray(data) ? data : []);
+
+    // An entity without group permissions is valid; callers that need a group report it missing
+    if (!Array.isArray(permissionsArray)) {
+        throw new Error("Could not parse permissions array from Slingr API response.");
+    }
+    return permissionsArray;
+}
+
+/**
+ * Fetches the per-group permissions of an entity, from the metadata cache unless `fresh`
+ * is set (backups and restores must see the live state).
+ */
+export async function fetchEntityPermissions(builderClient: AxiosInstance, entityId: string, options: { fresh?: boolean } = {}): Promise<any[]> {
+    if (options.fresh) {
+        return loadEntityPermissions(builderClient, entityId);
+    }
+    return cachedMetadata(builderClient, 'permissions', entityId, () => loadEntityPermissions(builderClient, entityId));
+}
+
+export function matchesGroup(p: any, group: string): boolean {
+    return p.name === group || p.id === group || p.label === group ||
+        p.group?.name === group || p.group?.id === group || p.group?.label === group;
+}
+
+export function findGroupPermissions(permissionsArray: any[], group: string): any {
+    return permissionsArray.find((p: any) => matchesGroup(p, group));
+}
+
+// Keeps scripts or filters of CONDITION permissions, but collapses plain ones to their type
+export function formatPermission(permObj: any) {
+    if (!permObj) return undefined;
+    if (typeof permObj === 'string') return permObj;
+
+    const keys = Object.keys(permObj).filter(k => k !== 'id' && k !== 'type');
+    if (keys.length === 0 && permObj.type) {
+        return permObj.type;
+    }
+
+    const { id, ...rest } = permObj;
+    return rest;
+}
+
+/**
+ * Maps a partial RolePermission (as accepted by update_entity_permissions) onto the
+ * internal IDs of `targetGroup`. Fields, actions and parameters that don't exist in the
+ * group can't be sent to Slingr; they are left out of the update and listed in `unmatched`.
+ */
+export function buildGroupUpdate(targetGroup: any, updates: Record<string, any>): { groupUpdate: any, unmatched: string[] } {
+    const unmatched: string[] = [];
+
+    // Build ONLY the partial update payload requested
+    const groupUpdate: any = {
+        id: targetGroup.id,
+        name: targetGroup.name,
+        label: targetGroup.label
+    };
+
+    // 1. Process top-level permissions properly
+    TOP_LEVEL_PERMISSIONS.forEach(perm => {
+        if (updates[perm] !== undefined) {
+            let newVal = updates[perm];
+            const existingPermId = targetGroup[perm]?.id;
+            if (typeof newVal === 'string') {
+                groupUpdate[perm] = { type: newVal };
+            } else if (typeof newVal === 'object' && newVal !== null) {
+                groupUpdate[perm] = { ...newVal };
+            }
+
+            if (existingPermId && groupUpdate[perm] && !groupUpdate[perm].id) {
+                groupUpdate[perm].id = existingPermId;
+            }
+        }
+    });
+
+    if (updates.canImport !== undefined) groupUpdate.canImport = updates.canImport;
+    if (updates.canExport !== undefined) groupUpdate.canExport = updates.canExport;
+
+    // 2. Process Fields safely (match by name or ID and map to strict Slingr structure)
+    if (Array.isArray(updates.fields)) {
+        groupUpdate.fields = [];
+        updates.fields.forEach((updatedField: any) => {
+            const existingField = targetGroup.fields?.find((f: any) =>
+                f.name === updatedField.name || f.id === updatedField.id
+            );
+            if (existingField) {
+                groupUpdate.fields.push({
+                    id: existingField.id,
+                    name: existingField.name,
+                    label: existingField.label,
+                    permission: updatedField.permission
+                });
+            } else {
+                unmatched.push(`field '${updatedField.name ?? updatedField.id}'`);
+            }
+        });
+    }
+
+    // 3. Process Actions safely
+    if (Array.isArray(updates.actions)) {
+        groupUpdate.actions = [];
+        updates.actions.forEach((updatedAction: any) => {
+            const existingAction = targetGroup.actions?.find((a: any) =>
+                a.name === updatedAction.name || a.id === updatedAction.id
+            );
+            if (!existingAction) {
+                unmatched.push(`action '${updatedAction.name ?? updatedAction.id}'`);
+                return;
+            }
+
+            let actionPerm = updatedAction.permission;
+            if (typeof actionPerm === 'string') {
+                actionPerm = { type: actionPerm };
+            } else if (typeof actionPerm === 'object' && actionPerm !== null) {
+                actionPerm = { ...actionPerm };
+            }
+
+            const existingPermId = existingAction.permission?.id;
+            if (existingPermId && actionPerm && !actionPerm.id) {
+                actionPerm.id = existingPermId;
+            }
+
+            const actionUpdate: any = {
+                id: existingAction.id,
+                name: existingAction.name,
+                label: existingAction.label
+            };
+
+            if (actionPerm) {
+                actionUpdate.permission = actionPerm;
+            }
+
+            // Process Action Parameters if they exist
+            if (Array.isArray(updatedAction.parameters)) {
+                actionUpdate.parameters = [];
+                updatedAction.parameters.forEach((updatedParam: any) => {
+                    const existingParam = existingAction.parameters?.find((p: any) =>
+                        p.name === updatedParam.name || p.id === updatedParam.id
+                    );
+                    if (existingParam) {
+                        actionUpdate.parameters.push({
+                            id: existingParam.id,
+                            name: existingParam.name,
+                            label: existingParam.label,
+                            permission: updatedParam.permission
+                        });
+                    } else {
+                        unmatched.push(`parameter '${updatedParam.name ?? updatedParam.id}' of action '${existingAction.name}'`);
+                    }
+                });
+            }
+
+            groupUpdate.actions.push(actionUpdate);
+        });
+    }
+
+    return { groupUpdate, unmatched };
+}
+
+/** The state `targetGroup` would be in after Slingr applies `groupUpdate`. */
+export function applyGroupUpdate(targetGroup: any, groupUpdate: any): any {
+    const after = structuredClone(targetGroup);
+
+    TOP_LEVEL_PERMISSIONS.forEach(perm => {
+        if (groupUpdate[perm] !== undefined) after[perm] = groupUpdate[perm];
+    });
+    if (groupUpdate.canImport !== undefined) after.canImport = groupUpdate.canImport;
+    if (groupUpdate.canExport !== undefined) after.canExport = groupUpdate.canExport;
+
+    groupUpdate.fields?.forEach((fieldUpdate: any) => {
+        const field = after.fields?.find((f: any) => f.id === fieldUpdate.id);
+        if (field) field.permission = fieldUpdate.permission;
+    });
+
+    groupUpdate.actions?.forEach((actionUpdate: any) => {
+        const action = after.actions?.find((a: any) => a.id === actionUpdate.id);
+        if (!action) return;
+        if (actionUpdate.permission !== undefined) action.permission = actionUpdate.permission;
+        actionUpdate.parameters?.forEach((paramUpdate: any) => {
+            const param = action.parameters?.find((p: any) => p.id === paramUpdate.id);
+            if (param) param.permission = paramUpdate.permission;
+        });
+    });
+
+    return after;
+}
+
+/**
+ * Copies every permission of `source` onto a copy of `target`, keeping the target's
+ * own permission IDs. Source fields and actions the target doesn't have are listed in `unmatched`.
+ */
+export function copyGroupPermissions(source: any, target: any): { copied: any, unmatched: string[] } {
+    const copied = structuredClone(target);
+    const unmatched: string[] = [];
+
+    const copyPerm = (sourcePerm: any, targetPermId?: string) => {
+        if (!sourcePerm) return undefined;
+        if (typeof sourcePerm === 'string') {
+            return targetPermId ? { id: targetPermId, type: sourcePerm } : { type: sourcePerm };
+        }
+        const { id, ...rest } = sourcePerm;
+        return targetPermId ? { id: targetPermId, ...rest } : { ...rest };
+    };
+
+    TOP_LEVEL_PERMISSIONS.forEach(perm => {
+        copied[perm] = copyPerm(source[perm], copied[perm]?.id);
+    });
+
+    if (source.canImport !== undefined) copied.canImport = source.canImport;
+    if (source.canExport !== undefined) copied.canExport = source.canExport;
+
+    if (Array.isArray(copied.fields) && Array.isArray(source.fields)) {
+        copied.fields.forEach((tField: any) => {
+            const sField = source.fields.find((s: any) => s.name === tField.name);
+            if (sField && sField.permission) {
+                tField.permission = sField.permission;
+            }
+        });
+    }
+    source.fields?.forEach((sField: any) => {
+        if (!copied.fields?.some((t: any) => t.name === sField.name)) {
+            unmatched.push(`field '${sField.name}'`);
+        }
+    });
+
+    if (Array.isArray(copied.actions) && Array.isArray(source.actions)) {
+        copied.actions.forEach((tAction: any) => {
+            const sAction = source.actions.find((s: any) => s.name === tAction.name);
+            if (sAction) {
+                tAction.permission = copyPerm(sAction.permission, tAction.permission?.id);
+
+                if (Array.isArray(tAction.parameters) && Array.isArray(sAction.parameters)) {
+                    tAction.parameters.forEach((tParam: any) => {
+                        const sParam = sAction.parameters.find((s: any) => s.name === tParam.name);
+                        if (sParam && sParam.permission) {
+                            tParam.permission = sParam.permission;
+                        }
+                    });
+                }
+            }
+        });
+    }
+    source.actions?.forEach((sAction: any) => {
+        if (!copied.actions?.some((t: any) => t.name === sAction.name)) {
+            unmatched.push(`action '${sAction.name}'`);
+        }
+    });
+
+    return { copied, unmatched };
+}
+
+export function describePermission(permObj: any): string {
+    const formatted = formatPermission(permObj);
+    if (formatted === undefined) return '(none)';
+    return typeof formatted === 'string' ? formatted : JSON.stringify(formatted);
+}
+
+/** One line per permission that differs between two states of the same group. */
+export function diffGroupPermissions(before: any, after: any): string[] {
+    const changes: string[] = [];
+    const compare = (path: string, a: any, b: any) => {
+        const from = describePermission(a);
+        const to = describePermission(b);
+        if (from !== to) changes.push(`${path}: ${from} → ${to}`);
+    };
+
+    TOP_LEVEL_PERMISSIONS.forEach(perm => compare(perm, before?.[perm], after?.[perm]));
+    compare('canImport', before?.canImport, after?.canImport);
+    compare('canExport', before?.canExport, after?.canExport);
+
+    after?.fields?.forEach((field: any) => {
+        const previous = before?.fields?.find((f: any) => f.name === field.name);
+        compare(`fields.${field.name}`, previous?.permission, field.permission);
+    });
+
+    after?.actions?.forEach((action: any) => {
+        const previous = before?.actions?.find((a: any) => a.name === action.name);
+        compare(`actions.${action.name}`, previous?.permission, action.permission);
+        action.parameters?.forEach((param: any) => {
+            const previousParam = previous?.parameters?.find((p: any) => p.name === param.name);
+            compare(`actions.${action.name}.parameters.${param.name}`, previousParam?.permission, param.permission);
+        });
+    });
+
+    return changes;
+}
+
+/** Human-readable before/after report for a permission change on one group. */
+export function renderPermissionDiff(groupLabel: string, before: any, after: any, unmatched: string[] = []): string {
+    const changes = diffGroupPermissions(before, after);
+    const lines = [`Permission changes for group '${groupLabel}':`];
+    if (changes.length === 0) {
+        lines.push('  (no changes)');
+    } else {
+        changes.forEach(c => lines.push(`  ${c}`));
+    }
+    if (unmatched.length > 0) {
+        lines.push('', 'Not found in the entity (ignored):');
+        unmatched.forEach(u => lines.push(`  ${u}`));
+    }
+    return lines.join('\n');
+}
+
+function withoutId(permObj: any) {
+    if (!permObj || typeof permObj !== 'object') return permObj;
+    const { id, ...rest } = permObj;
+    return rest;
+}
+
+/**
+ * Turns a full group permission object (e.g. from a snapshot) back into the partial
+ * RolePermission shape `buildGroupUpdate` accepts, so it can be mapped onto live IDs.
+ */
+export function groupToUpdates(group: any): Record<string, any> {
+    const updates: Record<string, any> = {};
+
+    TOP_LEVEL_PERMISSIONS.forEach(perm => {
+        if (group[perm] !== undefined) updates[perm] = withoutId(group[perm]);
+    });
+    if (group.canImport !== undefined) updates.canImport = group.canImport;
+    if (group.canExport !== undefined) updates.canExport = group.canExport;
+
+    if (Array.isArray(group.fields)) {
+        updates.fields = group.fields.map((f: any) => ({ name: f.name, permission: f.permission }));
+    }
+
+    if (Array.isArray(group.actions)) {
+        updates.actions = group.actions.map((a: any) => ({
+            name: a.name,
+            permission: withoutId(a.permission),
+            parameters: a.parameters?.map((p: any) => ({ name: p.name, permission: p.permission }))
+        }));
+    }
+
+    return updates;
+}
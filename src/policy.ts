@@ -0,0 +1,163 @@
+import crypto from "crypto";
+import type { ToolDefinition, ToolResult } from "./tools.js";
+import { fetchEntityMetadata } from "./metadata.js";
+import { getClients, getEnvironmentProfile } from "./slingr-client.js";
+
+const GLOBAL_READ_ONLY = process.env.SLINGR_READ_ONLY === 'true';
+const CONFIRMATION_TTL_MS = Number(process.env.SLINGR_CONFIRMATION_TTL_SECONDS || 300) * 1000;
+
+const ACCESS_RANK = { read: 0, write: 1, destructive: 2 } as const;
+
+interface PendingConfirmation {
+    fingerprint: string;
+    expiresAt: number;
+}
+
+const pendingConfirmations = new Map<string, PendingConfirmation>();
+
+function blocked(reason: string): ToolResult {
+    return { content: [{ type: "text", text: `Blocked by policy: ${reason}` }], isError: true };
+}
+
+function stableStringify(value: any): string {
+    if (Array.isArray(value)) {
+        return `[${value.map(stableStringify).join(',')}]`;
+    }
+    if (value && typeof value === 'object') {
+        return `{${Object.keys(value).sort().map(k => `${JSON.stringify(k)}:${stableStringify(value[k])}`).join(',')}}`;
+    }
+    return JSON.stringify(value) ?? 'null';
+}
+
+// Stable key for a call so a confirmation token can't be replayed with different arguments
+function fingerprint(toolName: string, args: any): string {
+    const { confirmationToken, ...rest } = args || {};
+    return crypto.createHash('sha256').update(`${toolName}:${stableStringify(rest)}`).digest('hex');
+}
+
+function matchesPattern(value: string, pattern: string): boolean {
+    if (pattern.endsWith('*')) {
+        return value.startsWith(pattern.slice(0, -1));
+    }
+    return value === pattern;
+}
+
+/** The entity references a call targets, taken from the common argument names. */
+function targetEntities(args: any): string[] {
+    const entities = Array.isArray(args?.entities) ? args.entities : [];
+    return [args?.entityId, args?.entityName, ...entities].filter((e): e is string => typeof e === 'string');
+}
+
+// An allowlist may use names while the call uses IDs (or vice versa), so look the entity up
+async function entityAliases(environment: string, entity: string): Promise<string[]> {
+    const { builderClient } = getClients(environment);
+    try {
+        const metadata = await fetchEntityMetadata(builderClient, entity);
+        return [entity, metadata.id, metadata.name, metadata.fullName].filter(Boolean);
+    } catch {
+        return [entity];
+    }
+}
+
+async function isEntityAllowed(environment: string, entity: string, allowed: string[]): Promise<boolean> {
+    if (allowed.some(pattern => matchesPattern(entity, pattern))) {
+        return true;
+    }
+    const aliases = await entityAliases(environment, entity);
+    return aliases.some(alias => allowed.some(pattern => matchesPattern(alias, pattern)));
+}
+
+async function defaultPreview(tool: ToolDefinition, args: any): Promise<string> {
+    const { confirmationToken, ...rest } = args || {};
+    return `Tool: ${tool.name}\nArguments:\n${JSON.stringify(rest, null, 2)}`;
+}
+
+function issueConfirmation(toolName: string, args: any): string {
+    const now = Date.now();
+    for (const [token, pending] of pendingConfirmations) {
+        if (pending.expiresAt < now) pendingConfirmations.delete(token);
+    }
+
+    const token = crypto.randomBytes(12).toString('hex');
+    pendingConfirmations.set(token, { fingerprint: fingerprint(toolName, args), expiresAt: now + CONFIRMATION_TTL_MS });
+    return token;
+}
+
+function consumeConfirmation(token: string, toolName: string, args: any): boolean {
+    const pending = pendingConfirmations.get(token);
+    if (!pending) return false;
+    pendingConfirmations.delete(token);
+    return pending.expiresAt >= Date.now() && pending.fingerprint === fingerprint(toolName, args);
+}
+
+/**
+ * Applies read-only mode, the environment's tool/entity allowlists and the
+ * confirmation flow to a tool call. Returns a result to send back instead of
+ * running the tool (a denial or a confirmation preview), or undefined to proceed.
+ */
+export async function enforcePolicy(tool: ToolDefinition, args: any): Promise<ToolResult | undefined> {
+    const access = tool.supportsDryRun && args?.[tool.dryRunArgument || 'dryRun'] === true ? 'read' : tool.access || 'read';
+    const profile = getEnvironmentProfile(tool.targetEnvironment ? tool.targetEnvironment(args) : args?.environment);
+    const policy = profile.policy;
+
+    if (policy.allowedTools && !policy.allowedTools.some(pattern => matchesPattern(tool.name, pattern))) {
+        return blocked(`tool '${tool.name}' is not allowed in environment '${profile.name}'.`);
+    }
+
+    if (access === 'read') {
+        return undefined;
+    }
+
+    if (GLOBAL_READ_ONLY || policy.readOnly) {
+        const scope = GLOBAL_READ_ONLY ? 'the server' : `environment '${profile.name}'`;
+        return blocked(`${scope} is in read-only mode, '${tool.name}' modifies data.`);
+    }
+
+    if (policy.allowedEntities) {
+        const entities = tool.targetEntities ? await tool.targetEntities(args) : targetEntities(args);
+        for (const entity of entities) {
+            if (!(await isEntityAllowed(profile.name, entity, policy.allowedEntities))) {
+                return blocked(`entity '${entity}' is not allowed in environment '${profile.name}'.`);
+            }
+        }
+    }
+
+    const confirmFrom = policy.confirm || process.env.SLINGR_CONFIRM || 'destructive';
+    const confirmationSkipped = confirmFrom === 'none' || ACCESS_RANK[access] < ACCESS_RANK[confirmFrom as keyof typeof ACCESS_RANK];
+    if (confirmationSkipped && !tool.alwaysConfirm) {
+        return undefined;
+    }
+
+    if (args?.confirmationToken) {
+        if (consumeConfirmation(args.confirmationToken, tool.name, args)) {
+            return undefined;
+        }
+        return blocked("the confirmation token is invalid, expired, already used or was issued for different arguments. Call the tool again without it to get a new one.");
+    }
+
+    const preview = tool.preview ? await tool.preview(args) : await defaultPreview(tool, args);
+    const token = issueConfirmation(tool.name, args);
+    return {
+        content: [{
+            type: "text",
+            text: `⚠️ '${tool.name}' needs confirmation before it runs in environment '${profile.name}'. Nothing has been changed yet.\n\n${preview}\n\nTo proceed, call '${tool.name}' again with the same arguments plus confirmationToken: "${token}" (valid for ${Math.round(CONFIRMATION_TTL_MS / 1000)} seconds, single use).`
+        }],
+    };
+}
+
+/** Adds the policy-related arguments to a tool's advertised input schema. */
+export function withPolicyArguments(tool: ToolDefinition): any {
+    if (!tool.access || tool.access === 'read') {
+        return tool.inputSchema;
+    }
+    return {
+        ...tool.inputSchema,
+        properties: {
+            ...tool.inputSchema.properties,
+            confirmationToken: {
+                type: "string",
+                description: "One-time token returned by a previous call to this tool. Required to actually run calls that need confirmation."
+            },
+        },
+    };
+}
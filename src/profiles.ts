@@ -0,0 +1,127 @@
+import fs from "fs";
+import path from "path";
+import type { AuthSettings } from "./auth.js";
+
+/** Safety rules applied to tool calls that target an environment (see policy.ts). */
+export interface EnvironmentPolicy {
+    readOnly?: boolean;
+    allowedTools?: string[];
+    allowedEntities?: string[];
+    /** Lowest access level that needs a confirmation token: "destructive" (default), "write" or "none". */
+    confirm?: string;
+}
+
+/** One named Slingr app/environment the server can talk to. */
+export interface EnvironmentProfile {
+    name: string;
+    description?: string;
+    builderApiUrl: string;
+    runtimeApiUrl: string;
+    auth: AuthSettings;
+    policy: EnvironmentPolicy;
+}
+
+export interface ProfilesConfig {
+    defaultEnvironment: string;
+    profiles: Map<string, EnvironmentProfile>;
+}
+
+// Lets the profiles file reference secrets kept in the environment, e.g. "password": "${PROD_PASSWORD}"
+function expandEnvVars(value: any): any {
+    if (typeof value !== 'string') return value;
+    return value.replace(/\$\{(\w+)\}/g, (_, name) => process.env[name] ?? '');
+}
+
+function deriveRuntimeUrl(builderApiUrl: string): string {
+    return builderApiUrl.replace('/builder/api', '/runtime/api');
+}
+
+function defaultLoginUrl(builderApiUrl: string): string {
+    return `${new URL(builderApiUrl).origin}/dev/builder/api/auth/login`;
+}
+
+function buildProfile(name: string, raw: Record<string, any>): EnvironmentProfile {
+    const entry: Record<string, any> = {};
+    for (const [key, value] of Object.entries(raw)) {
+        entry[key] = expandEnvVars(value);
+    }
+
+    const builderApiUrl = entry.builderApiUrl || entry.apiUrl;
+    if (!builderApiUrl) {
+        throw new Error(`Environment '${name}' is missing 'builderApiUrl'.`);
+    }
+
+    return {
+        name,
+        description: entry.description,
+        builderApiUrl,
+        runtimeApiUrl: entry.runtimeApiUrl || deriveRuntimeUrl(builderApiUrl),
+        auth: {
+            provider: entry.authProvider,
+            loginUrl: entry.loginUrl || defaultLoginUrl(builderApiUrl),
+            email: entry.email,
+            password: entry.password,
+            token: entry.token,
+            tokenFile: entry.tokenFile,
+        },
+        policy: {
+            readOnly: entry.readOnly,
+            allowedTools: entry.allowedTools,
+            allowedEntities: entry.allowedEntities,
+            confirm: entry.confirm,
+        },
+    };
+}
+
+/** The single environment described by the legacy SLINGR_* variables, if any. */
+function profileFromEnv(): EnvironmentProfile | undefined {
+    const builderApiUrl = process.env.SLINGR_BUILDER_API_URL || process.env.SLINGR_API_URL;
+    if (!builderApiUrl) return undefined;
+
+    return buildProfile(process.env.SLINGR_ENVIRONMENT_NAME || 'default', {
+        builderApiUrl,
+        runtimeApiUrl: process.env.SLINGR_RUNTIME_API_URL,
+        authProvider: process.env.SLINGR_AUTH_PROVIDER,
+        loginUrl: process.env.SLINGR_LOGIN_URL,
+        email: process.env.SLINGR_EMAIL,
+        password: process.env.SLINGR_PASSWORD,
+        token: process.env.SLINGR_TOKEN,
+        tokenFile: process.env.SLINGR_TOKEN_FILE,
+        allowedTools: process.env.SLINGR_ALLOWED_TOOLS?.split(',').map(t => t.trim()),
+        allowedEntities: process.env.SLINGR_ALLOWED_ENTITIES?.split(',').map(e => e.trim()),
+    });
+}
+
+/**
+ * Reads environments from the profiles file (SLINGR_PROFILES_FILE, defaults to
+ * ./slingr-profiles.json) and adds the one described by the SLINGR_* variables.
+ */
+export function loadProfiles(): ProfilesConfig {
+    const profilesFile = process.env.SLINGR_PROFILES_FILE || path.join(process.cwd(), 'slingr-profiles.json');
+    const profiles = new Map<string, EnvironmentProfile>();
+    let fileDefault: string | undefined;
+
+    if (fs.existsSync(profilesFile)) {
+        const raw = JSON.parse(fs.readFileSync(profilesFile, 'utf-8'));
+        fileDefault = raw.default;
+        for (const [name, entry] of Object.entries<Record<string, any>>(raw.environments || {})) {
+            profiles.set(name, buildProfile(name, entry));
+        }
+    }
+
+    const envProfile = profileFromEnv();
+    if (envProfile && !profiles.has(envProfile.name)) {
+        profiles.set(envProfile.name, envProfile);
+    }
+
+    if (profiles.size === 0) {
+        throw new Error("Error: No Slingr environment configured. Define SLINGR_API_URL in .env or create a profiles file.");
+    }
+
+    const defaultEnvironment = process.env.SLINGR_DEFAULT_ENVIRONMENT || fileDefault || envProfile?.name || profiles.keys().next().value!;
+    if (!profiles.has(defaultEnvironment)) {
+        throw new Error(`Default environment '${defaultEnvironment}' is not configured.`);
+    }
+
+    return { defaultEnvironment, profiles };
+}
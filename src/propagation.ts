@@ -0,0 +1,160 @@
+import type { AxiosInstance } from "axios";
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { mapWithConcurrency } from "./concurrency.js";
+import { fetchEntities, filterByFolderPath, matchesEntity, type EntitySummary } from "./metadata.js";
+import { copyGroupPermissions, fetchEntityPermissions, findGroupPermissions, renderPermissionDiff } from "./permissions.js";
+
+const RUNS_DIR = process.env.SLINGR_RUNS_DIR || path.join(process.cwd(), 'data/runs');
+
+export type PropagationStatus = 'pending' | 'done' | 'failed' | 'skipped';
+
+export interface PropagationEntry {
+    entity: EntitySummary;
+    status: PropagationStatus;
+    message?: string;
+}
+
+/** Progress of one propagation, persisted after every entity so a failed run can be resumed. */
+export interface PropagationRun {
+    runId: string;
+    createdAt: string;
+    updatedAt: string;
+    environment: string;
+    sourceGroup: string;
+    targetGroup: string;
+    entries: PropagationEntry[];
+}
+
+export interface PropagationScope {
+    entityPath?: string;
+    entities?: string[];
+}
+
+function runFile(runId: string): string {
+    return path.join(RUNS_DIR, `propagation-${runId}.json`);
+}
+
+function saveRun(run: PropagationRun) {
+    run.updatedAt = new Date().toISOString();
+    fs.mkdirSync(RUNS_DIR, { recursive: true });
+    fs.writeFileSync(runFile(run.runId), JSON.stringify(run, null, 2), 'utf-8');
+}
+
+export function loadPropagationRun(runId: string): PropagationRun {
+    const filePath = runFile(runId);
+    if (!fs.existsSync(filePath)) {
+        throw new Error(`Propagation run '${runId}' not found in ${RUNS_DIR}.`);
+    }
+    return JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+}
+
+/** Entities selected by a folder path and/or an explicit list; all entities when neither is given. */
+export async function resolvePropagationEntities(builderClient: AxiosInstance, scope: PropagationScope): Promise<EntitySummary[]> {
+    let entities = filterByFolderPath(await fetchEntities(builderClient), scope.entityPath);
+    if (scope.entities?.length) {
+        const missing = scope.entities.filter(ref => !entities.some(e => matchesEntity(e, ref)));
+        if (missing.length > 0) {
+            throw new Error(`Entities not found: ${missing.join(', ')}`);
+        }
+        entities = entities.filter(e => scope.entities!.some(ref => matchesEntity(e, ref)));
+    }
+    return entities;
+}
+
+export function createPropagationRun(environment: string, sourceGroup: string, targetGroup: string, entities: EntitySummary[]): PropagationRun {
+    const now = new Date().toISOString();
+    return {
+        runId: `${now.slice(0, 10)}-${crypto.randomBytes(4).toString('hex')}`,
+        createdAt: now,
+        updatedAt: now,
+        environment,
+        sourceGroup,
+        targetGroup,
+        entries: entities.map(entity => ({ entity, status: 'pending' }))
+    };
+}
+
+type EntityPlan =
+    | { skipped: true; reason: string }
+    | { skipped: false; target: any; copied: any; unmatched: string[] };
+
+async function planEntity(builderClient: AxiosInstance, entity: EntitySummary, sourceGroup: string, targetGroup: string): Promise<EntityPlan> {
+    // Read live: the copied group is written back as a full overwrite
+    const permissionsArray = await fetchEntityPermissions(builderClient, entity.id, { fresh: true });
+    const source = findGroupPermissions(permissionsArray, sourceGroup);
+    const target = findGroupPermissions(permissionsArray, targetGroup);
+    if (!source || !target) {
+        return { skipped: true, reason: `${!source ? 'source' : 'target'} group not present in this entity` };
+    }
+    const { copied, unmatched } = copyGroupPermissions(source, target);
+    return { skipped: false, target, copied, unmatched };
+}
+
+/** Per-entity before/after diffs without changing anything. */
+export async function previewPropagation(builderClient: AxiosInstance, entities: EntitySummary[], sourceGroup: string, targetGroup: string): Promise<string> {
+    const sections = await mapWithConcurrency(entities, 4, async (entity) => {
+        const header = `## ${entity.fullPath || entity.label}`;
+        try {
+            const plan = await planEntity(builderClient, entity, sourceGroup, targetGroup);
+            if (plan.skipped) return `${header}\nSkipped: ${plan.reason}`;
+            return `${header}\n${renderPermissionDiff(plan.target.label || targetGroup, plan.target, plan.copied, plan.unmatched)}`;
+        } catch (error: any) {
+            return `${header}\nCould not read permissions: ${error.message}`;
+        }
+    });
+    return sections.join('\n\n');
+}
+
+/** Entries a resumed run still has to process: pending ones and those that failed. */
+export function remainingPropagationEntries(run: PropagationRun): PropagationEntry[] {
+    return run.entries.filter(e => e.status === 'pending' || e.status === 'failed');
+}
+
+/**
+ * Copies the source group onto the target group in every entry that isn't done yet.
+ * Failures are recorded and don't stop the run; the run file is saved after every entity.
+ */
+export async function executePropagation(builderClient: AxiosInstance, run: PropagationRun): Promise<PropagationRun> {
+    const remaining = remainingPropagationEntries(run);
+    saveRun(run);
+
+    await mapWithConcurrency(remaining, 4, async (entry) => {
+        try {
+            const plan = await planEntity(builderClient, entry.entity, run.sourceGroup, run.targetGroup);
+            if (plan.skipped) {
+                entry.status = 'skipped';
+                entry.message = plan.reason;
+            } else {
+                await builderClient.put(`/entities/${entry.entity.id}/permissions`, { permissions: [plan.copied] });
+                entry.status = 'done';
+                entry.message = plan.unmatched.length > 0 ? `not in target: ${plan.unmatched.join(', ')}` : undefined;
+            }
+        } catch (error: any) {
+            entry.status = 'failed';
+            entry.message = error.response
+                ? `Slingr Error (${error.response.status}): ${JSON.stringify(error.response.data)}`
+                : error.message;
+        }
+        saveRun(run);
+    });
+
+    return run;
+}
+
+export function renderPropagationReport(run: PropagationRun): string {
+    const icons: Record<PropagationStatus, string> = { done: '✅', failed: '❌', skipped: '⏭️', pending: '⏳' };
+    const counts = run.entries.reduce((acc, e) => ({ ...acc, [e.status]: (acc[e.status] || 0) + 1 }), {} as Record<string, number>);
+    const summary = Object.entries(counts).map(([status, n]) => `${n} ${status}`).join(', ');
+
+    const lines = run.entries.map(e =>
+        `${icons[e.status]} ${e.entity.fullPath || e.entity.label}${e.message ? `: ${e.message}` : ''}`
+    );
+
+    const resumeHint = counts.failed
+        ? `\n\nResume with resumeRunId: "${run.runId}" to retry the failed entities.`
+        : '';
+
+    return `Propagation '${run.sourceGroup}' → '${run.targetGroup}' (run ${run.runId}): ${summary}.\n\n${lines.join('\n')}${resumeHint}`;
+}
@@ -1,27 +1,136 @@
 import * as path from 'path';
-import * as lancedb from '@lancedb/lancedb';
-import { pipeline } from '@xenova/transformers';
+import crypto from 'crypto';
 import fs from 'fs';
-import { glob } from 'glob';
+import { chunkMarkdown, DEFAULT_CHUNK_OPTIONS } from './doc-chunker.js';
+import { docSources, listDocFiles, type DocFile, type SourceType } from './doc-loaders.js';
+import {
+    connectVectorStore,
+    createVectorTable,
+    DB_PATH,
+    embeddingFingerprint,
+    embeddingMismatch,
+    embedText,
+    loadEmbeddingModel,
+    matchesCurrentEmbeddings,
+    type EmbeddingFingerprint,
+} from './embeddings.js';
+import { CrossEncoderReranker, ensureFullTextIndex, hybridSearch, sqlStartsWith, sqlString, type SearchHit } from './retrieval.js';
 
-const DB_PATH = path.join(process.cwd(), 'data/lancedb');
-const DOCS_DIR = path.join(process.cwd(), 'docs');
+// Per-file content hashes of what the documentation table holds, for incremental ingestion
+const MANIFEST_FILE = path.join(DB_PATH, 'documentation-manifest.json');
+// Optional cross-encoder (e.g. Xenova/ms-marco-MiniLM-L-6-v2) that reorders the fused hits
+const RERANK_MODEL = process.env.SLINGR_RAG_RERANK_MODEL || '';
+
+export interface SearchOptions {
+    limit?: number;
+    /** Only return chunks whose source path starts with this prefix. */
+    source?: string;
+    /** Only return chunks produced by this loader (e.g. 'openapi' for REST API specs). */
+    sourceType?: SourceType;
+    /** Drop hits whose relevance (reranker score, else embedding similarity) is below this (0-1). */
+    minScore?: number;
+}
+
+interface DocumentRow {
+    vector: number[];
+    text: string;
+    source: string;
+    sourceType: SourceType;
+    headingPath: string;
+    anchor: string;
+    startLine: number;
+    endLine: number;
+}
+
+interface IngestionManifest extends EmbeddingFingerprint {
+    chunking: string;
+    files: Record<string, { hash: string, chunks: number }>;
+}
+
+export interface IngestOptions {
+    /** Re-embed every file even if its hash is unchanged. */
+    full?: boolean;
+    onProgress?: (processedFiles: number, totalFiles: number, currentFile?: string) => void;
+}
+
+export interface IngestionSummary {
+    full: boolean;
+    added: string[];
+    updated: string[];
+    removed: string[];
+    unchanged: number;
+    /** Chunks embedded in this run. */
+    chunks: number;
+}
+
+export interface IngestionJob {
+    status: 'running' | 'done' | 'failed';
+    full: boolean;
+    startedAt: string;
+    finishedAt?: string;
+    processedFiles: number;
+    totalFiles: number;
+    currentFile?: string;
+    summary?: IngestionSummary;
+    error?: string;
+}
+
+function hashContent(content: string): string {
+    return crypto.createHash('sha256').update(content).digest('hex');
+}
+
+// Bumped when rows gain columns or loaders change their output, so older tables are rebuilt
+const CHUNKING_FORMAT = 'loaders-1';
+
+function chunkingSignature(): string {
+    return `${CHUNKING_FORMAT}/${DEFAULT_CHUNK_OPTIONS.maxTokens}/${DEFAULT_CHUNK_OPTIONS.overlapTokens}/${DEFAULT_CHUNK_OPTIONS.minTokens}`;
+}
+
+function readManifest(): IngestionManifest | undefined {
+    if (!fs.existsSync(MANIFEST_FILE)) return undefined;
+    try {
+        return JSON.parse(fs.readFileSync(MANIFEST_FILE, 'utf-8'));
+    } catch {
+        return undefined;
+    }
+}
+
+function writeManifest(manifest: IngestionManifest) {
+    fs.mkdirSync(path.dirname(MANIFEST_FILE), { recursive: true });
+    fs.writeFileSync(MANIFEST_FILE, JSON.stringify(manifest, null, 2), 'utf-8');
+}
+
+/** Resource URI of a hit's section, e.g. `slingr://docs/data/queries.md#sysdatafind`. */
+export function citationUri(hit: SearchHit): string {
+    return `slingr://docs/${hit.source}${hit.anchor ? `#${hit.anchor}` : ''}`;
+}
 
 export class RAGSystem {
     private db: any;
-    private embedder: any;
     private ready: boolean = false;
+    private fullTextReady: boolean = false;
+    private reranker = RERANK_MODEL ? new CrossEncoderReranker(RERANK_MODEL) : undefined;
+    private job?: IngestionJob;
+    /** Why the documentation table doesn't fit the configured embedding model, if it doesn't. */
+    private mismatch?: string;
 
     async initialize() {
         try {
             console.error("Initializing RAG system...");
-            this.db = await lancedb.connect(DB_PATH);
-            this.embedder = await pipeline('feature-extraction', 'Xenova/all-MiniLM-L6-v2');
+            this.db = await connectVectorStore();
+            await loadEmbeddingModel();
 
             const tableNames = await this.db.tableNames();
             if (tableNames.includes('documentation')) {
+                const table = await this.db.openTable('documentation');
+                this.mismatch = await embeddingMismatch(table, readManifest());
+                this.fullTextReady = await ensureFullTextIndex(table);
                 this.ready = true;
-                console.error("✅ RAG System Ready: Documentation table found.");
+                if (this.mismatch) {
+                    console.error(`⚠️ RAG Warning: the documentation table can't be searched, ${this.mismatch}. Re-ingest with --full.`);
+                } else {
+                    console.error("✅ RAG System Ready: Documentation table found.");
+                }
             } else {
                 console.error("⚠️ RAG Warning: 'documentation' table not found. Run 'npm run ingest' first.");
             }
@@ -35,80 +144,239 @@ export class RAGSystem {
         return this.ready;
     }
 
-    async search(query: string, limit: number = 3) {
+    /**
+     * Hybrid (vector + full-text) search over the documentation chunks. A configured
+     * cross-encoder then reorders the fused candidates.
+     */
+    async search(query: string, options: SearchOptions = {}): Promise<SearchHit[]> {
         if (!this.ready) {
             throw new Error("RAG system is not ready.");
         }
-
-        const output = await this.embedder(query, { pooling: 'mean', normalize: true });
-        const queryVector = Array.from(output.data);
+        if (this.mismatch) {
+            throw new Error(`The documentation index can't be searched: ${this.mismatch}. Re-ingest it with ingest_documentation (full: true) or 'npx tsx scripts/ingest-docs.ts --full'.`);
+        }
+        const limit = options.limit ?? 3;
+        const candidates = Math.max(limit * 4, 20);
+        const conditions = [
+            options.source && sqlStartsWith('source', options.source),
+            options.sourceType && `sourceType = ${sqlString(options.sourceType)}`,
+        ].filter(Boolean);
+        const filter = conditions.length > 0 ? conditions.join(' AND ') : undefined;
 
         const table = await this.db.openTable('documentation');
-        const results = await table.vectorSearch(queryVector as number[])
-            .limit(limit)
-            .toArray();
-
-        return results.map((r: any) => ({
-            text: r.text,
-            source: r.source,
-            score: r._distance
-        }));
+        const fused = await hybridSearch(table, {
+            vector: await embedText(query, 'query'),
+            text: query,
+            filter,
+            candidates,
+            fullText: this.fullTextReady,
+        }, (r: any) => `${r.source}\u0000${r.startLine}\u0000${r.text}`);
+
+        let hits: SearchHit[] = fused
+            .map(({ row, score, similarity }) => ({
+                text: row.text,
+                source: row.source,
+                sourceType: row.sourceType,
+                score,
+                relevance: similarity,
+                headingPath: row.headingPath,
+                anchor: row.anchor,
+                startLine: row.startLine,
+                endLine: row.endLine,
+            }));
+        if (this.reranker) {
+            hits = await this.reranker.rerank(query, hits);
+        }
+
+        return hits
+            .filter(hit => options.minScore === undefined || hit.relevance! >= options.minScore)
+            .slice(0, limit);
     }
 
-    async ingest() {
+    private async embedChunks(file: DocFile, content: string): Promise<DocumentRow[]> {
+        const markdown = file.loader.toMarkdown(content);
+        if (markdown === undefined) {
+            console.error(`⚠️ Skipping ${file.source}: not a ${file.loader.type} document.`);
+            return [];
+        }
+        const rows: DocumentRow[] = [];
+        for (const chunk of chunkMarkdown(markdown, { ...DEFAULT_CHUNK_OPTIONS, ...file.loader.chunkOptions })) {
+            const headingPath = chunk.headings.join(' > ');
+            // The breadcrumb gives the embedding the context the chunk's own text may lack
+            rows.push({
+                vector: await embedText(headingPath ? `${headingPath}\n\n${chunk.text}` : chunk.text, 'passage'),
+                text: chunk.text,
+                source: file.source,
+                sourceType: file.loader.type,
+                headingPath,
+                anchor: chunk.anchor,
+                startLine: chunk.startLine,
+                endLine: chunk.endLine,
+            });
+        }
+        return rows;
+    }
+
+    /**
+     * Brings the documentation table in line with the documentation directories: only files whose content hash
+     * changed are re-embedded, and rows of deleted files are removed. A different model or
+     * chunking setup, a missing table or `full` rebuild everything.
+     */
+    async ingest(options: IngestOptions = {}): Promise<IngestionSummary> {
         console.error('🚀 Starting documentation ingestion...');
 
         if (!this.db) {
-            this.db = await lancedb.connect(DB_PATH);
-        }
-        if (!this.embedder) {
-            this.embedder = await pipeline('feature-extraction', 'Xenova/all-MiniLM-L6-v2');
+            this.db = await connectVectorStore();
         }
 
-        const files = await glob('**/*.md', { cwd: DOCS_DIR });
-        console.error(`📄 Found ${files.length} markdown files in ${DOCS_DIR}`);
+        const docFiles = await listDocFiles();
+        const directories = docSources().map(s => s.dir).join(', ');
+        console.error(`📄 Found ${docFiles.length} documentation files in ${directories}`);
+        if (docFiles.length === 0) {
+            throw new Error(`⚠️ No content found to ingest. Make sure ${directories} contain .md, .html, .txt or OpenAPI (.json/.yaml) files.`);
+        }
+        const byPath = new Map(docFiles.map(f => [f.source, f]));
+        const files = docFiles.map(f => f.source);
 
-        const data: { vector: number[], text: string, source: string }[] = [];
+        const manifest = readManifest();
+        const tableExists = (await this.db.tableNames()).includes('documentation');
+        // New vectors can only join the table if they come from the same model setup
+        const full = !!options.full || !tableExists || !manifest ||
+            !(await matchesCurrentEmbeddings(manifest)) || manifest.chunking !== chunkingSignature();
+        const previous = full ? {} : manifest!.files;
 
+        const hashes = new Map(files.map(file => [file, hashContent(fs.readFileSync(byPath.get(file)!.filePath, 'utf-8'))]));
+        const summary: IngestionSummary = { full, added: [], updated: [], removed: [], unchanged: 0, chunks: 0 };
+        const toEmbed: string[] = [];
         for (const file of files) {
-            const filePath = path.join(DOCS_DIR, file);
-            const content = fs.readFileSync(filePath, 'utf-8');
+            const known = previous[file];
+            if (!known) {
+                summary.added.push(file);
+                toEmbed.push(file);
+            } else if (known.hash !== hashes.get(file)) {
+                summary.updated.push(file);
+                toEmbed.push(file);
+            } else {
+                summary.unchanged++;
+            }
+        }
+        summary.removed = Object.keys(previous).filter(file => !hashes.has(file));
 
+        const data: DocumentRow[] = [];
+        const nextFiles: Record<string, { hash: string, chunks: number }> = {};
+        for (const file of files) {
+            if (!toEmbed.includes(file)) nextFiles[file] = previous[file];
+        }
+        for (let i = 0; i < toEmbed.length; i++) {
+            const file = toEmbed[i];
             console.error(`Processing: ${file}`);
+            options.onProgress?.(i, toEmbed.length, file);
+            const docFile = byPath.get(file)!;
+            const rows = await this.embedChunks(docFile, fs.readFileSync(docFile.filePath, 'utf-8'));
+            data.push(...rows);
+            nextFiles[file] = { hash: hashes.get(file)!, chunks: rows.length };
+        }
+        options.onProgress?.(toEmbed.length, toEmbed.length);
+        summary.chunks = data.length;
 
-            const chunks = content
-                .split(/^#+\s/gm)
-                .map(c => c.trim())
-                .filter(c => c.length > 50);
-
-            for (const chunk of chunks) {
-                const output = await this.embedder(chunk, { pooling: 'mean', normalize: true });
-                const vector = Array.from(output.data);
-
-                data.push({
-                    vector: vector as number[],
-                    text: chunk,
-                    source: file
-                });
+        let table: any;
+        if (full) {
+            if (data.length === 0) {
+                throw new Error(`⚠️ No content found to ingest. Make sure the files in ${directories} have text.`);
+            }
+            console.error(`💾 Saving ${data.length} vectors to database...`);
+            try {
+                await this.db.dropTable('documentation');
+            } catch (e) {
+                // Ignore if table doesn't exist
+            }
+            table = await createVectorTable(this.db, 'documentation', data);
+        } else {
+            table = await this.db.openTable('documentation');
+            const stale = [...summary.updated, ...summary.removed];
+            for (let i = 0; i < stale.length; i += 100) {
+                await table.delete(`source IN (${stale.slice(i, i + 100).map(sqlString).join(', ')})`);
+            }
+            if (data.length > 0) {
+                console.error(`💾 Saving ${data.length} vectors to database...`);
+                await table.add(data);
             }
         }
 
-        if (data.length === 0) {
-            throw new Error('⚠️ No content found to ingest. Make sure you have .md files in the docs/ folder.');
+        const changed = full || data.length > 0 || summary.removed.length > 0;
+        if (changed) {
+            this.fullTextReady = await ensureFullTextIndex(table, true);
         }
+        writeManifest({ ...(await embeddingFingerprint()), chunking: chunkingSignature(), files: nextFiles });
+        this.mismatch = undefined;
+        this.ready = true;
+        console.error(`✅ Ingestion complete! ${summary.added.length} added, ${summary.updated.length} updated, ${summary.removed.length} removed, ${summary.unchanged} unchanged.`);
+        return summary;
+    }
 
-        console.error(`💾 Saving ${data.length} vectors to database...`);
-        try {
-            await this.db.dropTable('documentation');
-        } catch (e) {
-            // Ignore if table doesn't exist
+    /**
+     * Starts `ingest` in the background and returns right away; progress is read with
+     * `getIngestionJob`. While a job runs, it is returned instead of starting another one.
+     */
+    startIngestion(options: { full?: boolean } = {}): { job: IngestionJob, started: boolean } {
+        if (this.job?.status === 'running') {
+            return { job: this.job, started: false };
         }
+        const job: IngestionJob = {
+            status: 'running',
+            full: !!options.full,
+            startedAt: new Date().toISOString(),
+            processedFiles: 0,
+            totalFiles: 0,
+        };
+        this.job = job;
+        this.ingest({
+            full: options.full,
+            onProgress: (processed, total, file) => {
+                job.processedFiles = processed;
+                job.totalFiles = total;
+                job.currentFile = file;
+            },
+        }).then(summary => {
+            job.status = 'done';
+            job.summary = summary;
+        }).catch((error: any) => {
+            job.status = 'failed';
+            job.error = error.message;
+            console.error("❌ Documentation ingestion failed:", error);
+        }).finally(() => {
+            job.currentFile = undefined;
+            job.finishedAt = new Date().toISOString();
+        });
+        return { job, started: true };
+    }
 
-        await this.db.createTable('documentation', data);
-        this.ready = true;
-        console.error('✅ Ingestion complete!');
-        return data.length;
+    getIngestionJob(): IngestionJob | undefined {
+        return this.job;
+    }
+}
+
+export function renderIngestionJob(job: IngestionJob): string {
+    const lines = [`Documentation ingestion (${job.full ? 'full' : 'incremental'}): ${job.status}, started ${job.startedAt}${job.finishedAt ? `, finished ${job.finishedAt}` : ''}.`];
+    if (job.status === 'running') {
+        lines.push(job.totalFiles > 0
+            ? `Embedded ${job.processedFiles} of ${job.totalFiles} changed files${job.currentFile ? ` (now: ${job.currentFile})` : ''}.`
+            : 'Scanning files...');
+    }
+    if (job.summary) {
+        const s = job.summary;
+        lines.push(`${s.full ? 'Rebuilt the whole index. ' : ''}${s.added.length} added, ${s.updated.length} updated, ${s.removed.length} removed, ${s.unchanged} unchanged; ${s.chunks} chunks embedded.`);
+        const list = (label: string, files: string[]) => {
+            if (files.length > 0) lines.push(`${label}: ${files.slice(0, 20).join(', ')}${files.length > 20 ? `, and ${files.length - 20} more` : ''}`);
+        };
+        if (!s.full) {
+            list('Added', s.added);
+            list('Updated', s.updated);
+        }
+        list('Removed', s.removed);
     }
+    if (job.error) lines.push(`Error: ${job.error}`);
+    return lines.join('\n');
 }
 
 export const ragSystem = new RAGSystem();
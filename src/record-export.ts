@@ -0,0 +1,128 @@
+import type { AxiosInstance } from "axios";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import readline from "readline";
+import { once } from "events";
+import { toCsvRow } from "./csv.js";
+import { buildRecordQueryParams, iterateRecordPages, type RecordQuery } from "./record-query.js";
+
+export type ExportFormat = 'csv' | 'ndjson' | 'excel';
+
+export interface ExportOptions {
+    query: RecordQuery;
+    format: ExportFormat;
+    outputFile: string;
+    pageSize: number;
+    maxRecords?: number;
+}
+
+export interface ExportSummary {
+    rows: number;
+    outputFile: string;
+    columns?: string[];
+}
+
+const MULTI_VALUE_SEPARATOR = '; ';
+
+/**
+ * Flattens a record into dotted columns: nested objects and relationship references
+ * become `field.subField`, multi-valued fields are joined into a single cell.
+ */
+export function flattenRecord(record: any, prefix = '', out: Record<string, any> = {}): Record<string, any> {
+    for (const [key, value] of Object.entries(record ?? {})) {
+        const column = prefix ? `${prefix}.${key}` : key;
+        if (value === undefined) continue;
+        if (Array.isArray(value)) {
+            if (value.every(v => v === null || typeof v !== 'object')) {
+                out[column] = value.join(MULTI_VALUE_SEPARATOR);
+            } else {
+                const flattenedItems = value.map(v => flattenRecord(v));
+                const keys = [...new Set(flattenedItems.flatMap(f => Object.keys(f)))];
+                for (const k of keys) {
+                    out[`${column}.${k}`] = flattenedItems.map(f => f[k] ?? '').join(MULTI_VALUE_SEPARATOR);
+                }
+            }
+        } else if (value !== null && typeof value === 'object') {
+            flattenRecord(value, column, out);
+        } else {
+            out[column] = value;
+        }
+    }
+    return out;
+}
+
+async function writeLine(stream: fs.WriteStream, line: string) {
+    if (!stream.write(line)) {
+        await once(stream, 'drain');
+    }
+}
+
+async function closeStream(stream: fs.WriteStream) {
+    stream.end();
+    await once(stream, 'finish');
+}
+
+/**
+ * Streams every matching record of `/data/{entity}` to a local file page by page, so
+ * memory stays flat however large the entity is. CSV columns aren't known until every
+ * record has been seen, so rows are spooled to a temp file first and written in a second pass.
+ */
+export async function exportRecords(runtimeClient: AxiosInstance, entityName: string, options: ExportOptions): Promise<ExportSummary> {
+    const params = buildRecordQueryParams(options.query);
+    fs.mkdirSync(path.dirname(options.outputFile), { recursive: true });
+
+    const csvLike = options.format !== 'ndjson';
+    const spoolFile = csvLike ? path.join(os.tmpdir(), `slingr-export-${process.pid}-${Date.now()}.ndjson`) : options.outputFile;
+    const spool = fs.createWriteStream(spoolFile, 'utf-8');
+    const columns = new Set<string>();
+    let rows = 0;
+
+    try {
+        for await (const page of iterateRecordPages(runtimeClient, entityName, params, options.pageSize)) {
+            for (const record of page.items) {
+                if (options.maxRecords !== undefined && rows >= options.maxRecords) break;
+                const row = csvLike ? flattenRecord(record) : record;
+                if (csvLike) Object.keys(row).forEach(c => columns.add(c));
+                await writeLine(spool, JSON.stringify(row) + '\n');
+                rows++;
+            }
+            console.error(`📤 Export of '${entityName}': ${rows}${page.total !== undefined ? `/${page.total}` : ''} records`);
+            if (options.maxRecords !== undefined && rows >= options.maxRecords) break;
+        }
+    } catch (error) {
+        await closeStream(spool);
+        if (csvLike) fs.rmSync(spoolFile, { force: true });
+        throw error;
+    }
+    await closeStream(spool);
+
+    if (!csvLike) {
+        return { rows, outputFile: options.outputFile };
+    }
+
+    // Keep the columns in a predictable order: id and label first, the rest as discovered
+    const ordered = [...columns].sort((a, b) => {
+        const rank = (c: string) => (c === 'id' ? 0 : c === 'label' ? 1 : 2);
+        return rank(a) - rank(b);
+    });
+
+    // Excel only detects UTF-8 with a BOM and expects CRLF line endings
+    const excel = options.format === 'excel';
+    const newline = excel ? '\r\n' : '\n';
+    const out = fs.createWriteStream(options.outputFile, 'utf-8');
+    try {
+        await writeLine(out, (excel ? '\uFEFF' : '') + toCsvRow(ordered) + newline);
+        const reader = readline.createInterface({ input: fs.createReadStream(spoolFile, 'utf-8'), crlfDelay: Infinity });
+        for await (const line of reader) {
+            if (!line) continue;
+            const row = JSON.parse(line);
+            await writeLine(out, toCsvRow(ordered.map(c => row[c])) + newline);
+        }
+    } finally {
+        await closeStream(out);
+        fs.rmSync(spoolFile, { force: true });
+    }
+
+    return { rows, outputFile: options.outputFile, columns: ordered };
+}
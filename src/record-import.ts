@@ -0,0 +1,259 @@
+import type { AxiosInstance } from "axios";
+import fs from "fs";
+import path from "path";
+import { mapWithConcurrency } from "./concurrency.js";
+import { parseCsv, toCsvRow } from "./csv.js";
+import { fetchEntityMetadata } from "./metadata.js";
+import { buildFieldRules, validateRecordData, type FieldRule } from "./record-validation.js";
+
+export type ImportFormat = 'csv' | 'json' | 'ndjson';
+export type ImportRowStatus = 'created' | 'updated' | 'failed' | 'valid' | 'invalid';
+
+export interface ImportOptions {
+    filePath: string;
+    format?: ImportFormat;
+    /** Source column -> entity field. Columns matching a field name or label are mapped automatically. */
+    mapping?: Record<string, string>;
+    /** Relationship field -> field of the related entity used to find the record (default: label). */
+    relationshipLookups?: Record<string, string>;
+    mode: 'insert' | 'upsert';
+    upsertKey?: string;
+    multiValueSeparator: string;
+    batchSize: number;
+    concurrency: number;
+    validateOnly: boolean;
+    resultFile?: string;
+}
+
+export interface ImportRowResult {
+    row: number;
+    status: ImportRowStatus;
+    id?: string;
+    reason?: string;
+}
+
+export function detectImportFormat(filePath: string): ImportFormat {
+    const ext = path.extname(filePath).toLowerCase();
+    if (ext === '.csv') return 'csv';
+    if (ext === '.ndjson' || ext === '.jsonl') return 'ndjson';
+    if (ext === '.json') return 'json';
+    throw new Error(`Can't detect the format of '${filePath}'. Pass format: csv, json or ndjson.`);
+}
+
+export function readImportFile(filePath: string, format: ImportFormat): Record<string, any>[] {
+    const text = fs.readFileSync(filePath, 'utf-8');
+    switch (format) {
+        case 'csv':
+            return parseCsv(text);
+        case 'ndjson':
+            return text.split(/\r?\n/).filter(line => line.trim()).map((line, i) => {
+                try {
+                    return JSON.parse(line);
+                } catch (error: any) {
+                    throw new Error(`Invalid JSON on line ${i + 1} of '${filePath}': ${error.message}`);
+                }
+            });
+        case 'json': {
+            const data = JSON.parse(text);
+            const rows = Array.isArray(data) ? data : data.items;
+            if (!Array.isArray(rows)) {
+                throw new Error(`'${filePath}' must contain an array of records (or an object with an 'items' array).`);
+            }
+            return rows;
+        }
+    }
+}
+
+function resolveMapping(columns: string[], rules: FieldRule[], mapping?: Record<string, string>): Record<string, string> {
+    if (mapping) {
+        const unknown = Object.values(mapping).filter(field => !rules.some(r => r.name === field));
+        if (unknown.length > 0) {
+            throw new Error(`Mapping targets fields that don't exist in the entity: ${unknown.join(', ')}`);
+        }
+        return mapping;
+    }
+    const automatic: Record<string, string> = {};
+    for (const column of columns) {
+        const rule = rules.find(r => r.name === column || r.label?.toLowerCase() === column.toLowerCase());
+        if (rule) automatic[column] = rule.name;
+    }
+    return automatic;
+}
+
+const TRUE_VALUES = ['true', 'yes', 'y', '1'];
+const FALSE_VALUES = ['false', 'no', 'n', '0'];
+
+// Values from CSV are always strings; JSON values are passed through when already typed
+function convertSingleValue(rule: FieldRule, value: any): any {
+    if (typeof value !== 'string') return value;
+    const text = value.trim();
+    const type = rule.type;
+
+    if (type === 'INTEGER') {
+        return /^-?\d+$/.test(text) ? parseInt(text, 10) : text;
+    }
+    if (/DECIMAL|MONEY|PERCENTAGE|NUMBER/.test(type)) {
+        const number = Number(text);
+        return text !== '' && !Number.isNaN(number) ? number : text;
+    }
+    if (type === 'BOOLEAN') {
+        if (TRUE_VALUES.includes(text.toLowerCase())) return true;
+        if (FALSE_VALUES.includes(text.toLowerCase())) return false;
+        return text;
+    }
+    if (rule.choices) {
+        const byName = rule.choices.find(c => c.toLowerCase() === text.toLowerCase());
+        return byName ?? text;
+    }
+    return text;
+}
+
+function convertValue(rule: FieldRule, value: any, separator: string): any {
+    if (value === undefined || value === null || value === '') return undefined;
+    if (rule.many) {
+        const items = Array.isArray(value) ? value : String(value).split(separator).map(v => v.trim()).filter(Boolean);
+        return items.map(item => convertSingleValue(rule, item));
+    }
+    return convertSingleValue(rule, value);
+}
+
+/**
+ * Finds related records by a lookup field, remembering every answer so each distinct
+ * value costs at most one request per import.
+ */
+class RelationshipResolver {
+    private entityNames = new Map<string, string>();
+    private cache = new Map<string, Promise<string>>();
+
+    constructor(private builderClient: AxiosInstance, private runtimeClient: AxiosInstance) { }
+
+    private async targetEntityName(field: any): Promise<string> {
+        const entityId = field.typeRules?.entityId;
+        if (!entityId) throw new Error(`Relationship field '${field.name}' has no target entity in its metadata.`);
+        if (!this.entityNames.has(entityId)) {
+            const target = await fetchEntityMetadata(this.builderClient, entityId);
+            this.entityNames.set(entityId, target.name);
+        }
+        return this.entityNames.get(entityId)!;
+    }
+
+    resolve(field: any, lookupField: string, value: any): Promise<string> {
+        // Already an ID or a reference object: nothing to look up
+        if (value && typeof value === 'object') return Promise.resolve(value.id);
+        const key = `${field.name}:${lookupField}:${value}`;
+        let pending = this.cache.get(key);
+        if (!pending) {
+            pending = (async () => {
+                const entityName = await this.targetEntityName(field);
+                const params = new URLSearchParams({ [lookupField]: String(value), _size: '2', _fields: 'id' });
+                const response = await this.runtimeClient.get(`/data/${entityName}?${params.toString()}`);
+                const items = response.data.items || [];
+                if (items.length === 0) throw new Error(`${field.name}: no '${entityName}' record with ${lookupField} = '${value}'.`);
+                if (items.length > 1) throw new Error(`${field.name}: more than one '${entityName}' record with ${lookupField} = '${value}'.`);
+                return items[0].id;
+            })();
+            this.cache.set(key, pending);
+        }
+        return pending;
+    }
+}
+
+export interface ImportSummary {
+    total: number;
+    counts: Record<string, number>;
+    resultFile: string;
+    results: ImportRowResult[];
+}
+
+/**
+ * Loads records from a local file into an entity: maps columns to fields, converts
+ * values to the field types, resolves relationships, validates each row and inserts or
+ * upserts in batches. Writes a per-row result CSV next to the input unless told otherwise.
+ */
+export async function importRecords(builderClient: AxiosInstance, runtimeClient: AxiosInstance, entityName: string, options: ImportOptions): Promise<ImportSummary> {
+    const format = options.format || detectImportFormat(options.filePath);
+    const rows = readImportFile(options.filePath, format);
+    const metadata = await fetchEntityMetadata(builderClient, entityName);
+    const rules = buildFieldRules(metadata.fields);
+
+    const columns = [...new Set(rows.flatMap(r => Object.keys(r)))];
+    const mapping = resolveMapping(columns, rules, options.mapping);
+    if (Object.keys(mapping).length === 0) {
+        throw new Error(`None of the columns (${columns.join(', ')}) match a field of '${entityName}'. Provide a mapping.`);
+    }
+    if (options.mode === 'upsert' && !options.upsertKey) {
+        throw new Error("Upsert mode needs an 'upsertKey' field.");
+    }
+
+    const resolver = new RelationshipResolver(builderClient, runtimeClient);
+
+    const processRow = async (row: Record<string, any>, index: number): Promise<ImportRowResult> => {
+        const rowNumber = index + 1;
+        try {
+            const data: Record<string, any> = {};
+            for (const [column, fieldName] of Object.entries(mapping)) {
+                const rule = rules.find(r => r.name === fieldName)!;
+                const value = convertValue(rule, row[column], options.multiValueSeparator);
+                if (value === undefined) continue;
+
+                if (rule.type === 'RELATIONSHIP') {
+                    const field = metadata.fields.find((f: any) => f.name === fieldName);
+                    const lookupField = options.relationshipLookups?.[fieldName] || 'label';
+                    data[fieldName] = rule.many
+                        ? await Promise.all(value.map((v: any) => resolver.resolve(field, lookupField, v)))
+                        : await resolver.resolve(field, lookupField, value);
+                } else {
+                    data[fieldName] = value;
+                }
+            }
+
+            let existingId: string | undefined;
+            if (options.mode === 'upsert') {
+                const key = data[options.upsertKey!];
+                if (key === undefined) throw new Error(`upsert key '${options.upsertKey}' is empty.`);
+                const params = new URLSearchParams({ [options.upsertKey!]: String(key), _size: '2', _fields: 'id' });
+                const response = await runtimeClient.get(`/data/${entityName}?${params.toString()}`);
+                const matches = response.data.items || [];
+                if (matches.length > 1) throw new Error(`more than one record with ${options.upsertKey} = '${key}'.`);
+                existingId = matches[0]?.id;
+            }
+
+            const errors = validateRecordData(metadata, data, existingId ? 'update' : 'create');
+            if (errors.length > 0) {
+                return { row: rowNumber, status: options.validateOnly ? 'invalid' : 'failed', reason: errors.join('; ') };
+            }
+            if (options.validateOnly) {
+                return { row: rowNumber, status: 'valid', id: existingId };
+            }
+
+            if (existingId) {
+                await runtimeClient.patch(`/data/${entityName}/${existingId}`, data);
+                return { row: rowNumber, status: 'updated', id: existingId };
+            }
+            const response = await runtimeClient.post(`/data/${entityName}`, data);
+            return { row: rowNumber, status: 'created', id: response.data.id };
+        } catch (error: any) {
+            const reason = error.response
+                ? `Slingr Error (${error.response.status}): ${JSON.stringify(error.response.data)}`
+                : error.message;
+            return { row: rowNumber, status: options.validateOnly ? 'invalid' : 'failed', reason };
+        }
+    };
+
+    const results: ImportRowResult[] = [];
+    for (let start = 0; start < rows.length; start += options.batchSize) {
+        const batch = rows.slice(start, start + options.batchSize);
+        const batchResults = await mapWithConcurrency(batch, options.concurrency, (row, i) => processRow(row, start + i));
+        results.push(...batchResults);
+        console.error(`📥 Import into '${entityName}': ${results.length}/${rows.length} rows processed`);
+    }
+
+    const resultFile = options.resultFile
+        ? path.resolve(options.resultFile)
+        : `${options.filePath.replace(/\.[^.]+$/, '')}.results.csv`;
+    const lines = [toCsvRow(['row', 'status', 'id', 'reason']), ...results.map(r => toCsvRow([r.row, r.status, r.id, r.reason]))];
+    fs.writeFileSync(resultFile, lines.join('\n'), 'utf-8');
+
+    const counts = results.reduce((acc, r) => ({ ...acc, [r.status]: (acc[r.status] || 0) + 1 }), {} as Record<string, number>);
+    return { total: rows.length, counts, resultFile, results };
+}
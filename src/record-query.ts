@@ -0,0 +1,201 @@
+import type { AxiosInstance } from "axios";
+import { z } from "zod";
+import { fetchEntityMetadata } from "./metadata.js";
+import { didYouMean } from "./suggest.js";
+
+export const FILTER_OPERATORS = [
+    "equals", "notEquals", "greater", "greaterOrEquals", "less", "lessOrEquals",
+    "between", "in", "contains", "empty", "notEmpty"
+] as const;
+
+export const recordFilterSchema = z.object({
+    field: z.string(),
+    operator: z.enum(FILTER_OPERATORS).default("equals"),
+    value: z.any().optional(),
+    values: z.array(z.any()).optional(),
+});
+
+export const recordQuerySchema = z.object({
+    filters: z.array(recordFilterSchema).optional(),
+    sortField: z.string().optional(),
+    sortType: z.enum(["asc", "desc"]).optional(),
+    fields: z.array(z.string()).optional(),
+});
+
+export type RecordFilter = z.infer<typeof recordFilterSchema>;
+export type RecordQuery = z.infer<typeof recordQuerySchema>;
+
+/** JSON Schema for the query arguments, shared by the tools that read records. */
+export const recordQueryProperties = {
+    filters: {
+        type: "array",
+        description: "Optional. Field filters, combined with AND. Use 'relationshipField.subField' to filter on a related record's field.",
+        items: {
+            type: "object",
+            properties: {
+                field: { type: "string", description: "Field name, or 'relationshipField.subField'." },
+                operator: { type: "string", enum: FILTER_OPERATORS, default: "equals" },
+                value: { description: "Value for single-value operators." },
+                values: { type: "array", description: "Values for 'between' (exactly two: from, to) and 'in'." },
+            },
+            required: ["field"],
+        },
+    },
+    sortField: { type: "string", description: "Optional. Field to sort by." },
+    sortType: { type: "string", enum: ["asc", "desc"], description: "Optional. Sort direction." },
+    fields: { type: "array", items: { type: "string" }, description: "Optional. Only return these fields." },
+};
+
+// Always available on every record, even though they are not in the field metadata
+export const SYSTEM_FIELDS = ['id', 'label', 'version'];
+
+const RANGE_OPERATORS = ['greater', 'greaterOrEquals', 'less', 'lessOrEquals', 'between'];
+const RANGE_TYPES = /INTEGER|DECIMAL|MONEY|PERCENTAGE|NUMBER|DATE|TIME/i;
+const TEXT_TYPES = /TEXT|EMAIL|URL|PHONE|HTML|RELATIONSHIP|CHOICE/i;
+
+function fieldNames(metadata: any): string[] {
+    return [...SYSTEM_FIELDS, ...(metadata.fields || []).map((f: any) => f.name)];
+}
+
+function findField(metadata: any, name: string): any {
+    return metadata.fields?.find((f: any) => f.name === name);
+}
+
+/**
+ * Checks field names, operators and operand counts against the entity metadata.
+ * Relationship paths (`customer.name`) are checked against the related entity too.
+ */
+export async function validateRecordQuery(builderClient: AxiosInstance, entityName: string, query: RecordQuery): Promise<string[]> {
+    const metadata = await fetchEntityMetadata(builderClient, entityName);
+    const relatedCache = new Map<string, any>();
+    const errors: string[] = [];
+
+    const checkPath = async (fieldPath: string, context: string): Promise<any> => {
+        const [head, ...rest] = fieldPath.split('.');
+        if (SYSTEM_FIELDS.includes(head) && rest.length === 0) return { type: 'SYSTEM' };
+
+        const field = findField(metadata, head);
+        if (!field) {
+            errors.push(`${context}: field '${head}' does not exist in '${entityName}'.${didYouMean(head, fieldNames(metadata))}`);
+            return undefined;
+        }
+        if (rest.length === 0) return field;
+
+        if (field.type !== 'RELATIONSHIP' || !field.typeRules?.entityId) {
+            errors.push(`${context}: '${head}' is not a relationship field, so '${fieldPath}' can't be resolved.`);
+            return undefined;
+        }
+
+        const targetId = field.typeRules.entityId;
+        if (!relatedCache.has(targetId)) {
+            relatedCache.set(targetId, await fetchEntityMetadata(builderClient, targetId));
+        }
+        const target = relatedCache.get(targetId);
+        const subName = rest[0];
+        if (SYSTEM_FIELDS.includes(subName)) return { type: 'SYSTEM' };
+        const subField = findField(target, subName);
+        if (!subField) {
+            errors.push(`${context}: field '${subName}' does not exist in related entity '${target.name}'.${didYouMean(subName, fieldNames(target))}`);
+        }
+        return subField;
+    };
+
+    for (const filter of query.filters || []) {
+        const context = `Filter on '${filter.field}'`;
+        const field = await checkPath(filter.field, context);
+
+        if (filter.operator === 'between' && filter.values?.length !== 2) {
+            errors.push(`${context}: 'between' needs exactly two values.`);
+        } else if (filter.operator === 'in' && !filter.values?.length) {
+            errors.push(`${context}: 'in' needs a non-empty 'values' list.`);
+        } else if (filter.operator === 'in' && filter.values!.some(v => String(v).includes('|'))) {
+            errors.push(`${context}: 'in' values can't contain '|', the runtime API uses it to separate them.`);
+        } else if (!['between', 'in', 'empty', 'notEmpty'].includes(filter.operator) && filter.value === undefined) {
+            errors.push(`${context}: operator '${filter.operator}' needs a 'value'.`);
+        }
+
+        if (field && field.type !== 'SYSTEM') {
+            if (RANGE_OPERATORS.includes(filter.operator) && !RANGE_TYPES.test(field.type)) {
+                errors.push(`${context}: operator '${filter.operator}' is not supported for ${field.type} fields.`);
+            }
+            if (filter.operator === 'contains' && !TEXT_TYPES.test(field.type)) {
+                errors.push(`${context}: operator 'contains' is not supported for ${field.type} fields.`);
+            }
+        }
+    }
+
+    if (query.sortField) {
+        await checkPath(query.sortField, 'sortField');
+    }
+    for (const fieldName of query.fields || []) {
+        await checkPath(fieldName, 'fields');
+    }
+
+    return errors;
+}
+
+function filterValue(filter: RecordFilter): string {
+    const values = (filter.values || []).map(String);
+    switch (filter.operator) {
+        case 'equals': return String(filter.value);
+        case 'in':
+            // The runtime API has no escape for '|', so a value containing it would split into two
+            if (values.some(v => v.includes('|'))) {
+                throw new Error(`Filter on '${filter.field}': 'in' values can't contain '|', the runtime API uses it to separate them.`);
+            }
+            return values.join('|');
+        case 'between': return `between(${values[0]},${values[1]})`;
+        case 'contains': return `like(${filter.value})`;
+        case 'empty': return 'empty()';
+        case 'notEmpty': return 'notEmpty()';
+        default: return `${filter.operator}(${filter.value})`;
+    }
+}
+
+/** Translates a structured query into the Slingr runtime query string parameters. */
+export function buildRecordQueryParams(query: RecordQuery): URLSearchParams {
+    const params = new URLSearchParams();
+    for (const filter of query.filters || []) {
+        params.append(filter.field, filterValue(filter));
+    }
+    if (query.sortField) params.set('_sortField', query.sortField);
+    if (query.sortType) params.set('_sortType', query.sortType.toUpperCase());
+    if (query.fields?.length) params.set('_fields', query.fields.join(','));
+    return params;
+}
+
+/**
+ * Yields pages of `/data/{entity}` from `startOffset` until the collection is exhausted.
+ * Each page carries the offset of the record after it. The API may cap `_size`, so a short
+ * page does not end the collection: only an empty page or reaching the reported total does.
+ */
+export async function* iterateRecordPages(runtimeClient: AxiosInstance, entityName: string, params: URLSearchParams, pageSize: number, startOffset = 0) {
+    let offset = startOffset;
+    while (true) {
+        const pageParams = new URLSearchParams(params);
+        pageParams.set('_size', String(pageSize));
+        pageParams.set('_offset', String(offset));
+        const response = await runtimeClient.get(`/data/${entityName}?${pageParams.toString()}`);
+
+        const items: any[] = response.data.items || [];
+        const total: number | undefined = response.data.total;
+        offset += items.length;
+        const done = items.length === 0 || (total !== undefined && offset >= total);
+        yield { items, total, nextOffset: offset, done };
+        if (done) break;
+    }
+}
+
+export function encodeCursor(offset: number): string {
+    return Buffer.from(JSON.stringify({ offset })).toString('base64url');
+}
+
+export function decodeCursor(cursor: string): number {
+    try {
+        const { offset } = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+        if (typeof offset === 'number' && offset >= 0) return offset;
+    } catch {
+        // fall through to the error below
+    }
+    throw new Error(`Invalid cursor '${cursor}'.`);
+}
@@ -0,0 +1,160 @@
+import { SYSTEM_FIELDS } from "./record-query.js";
+import { didYouMean } from "./suggest.js";
+
+export interface FieldRule {
+    name: string;
+    label?: string;
+    type: string;
+    many: boolean;
+    required: boolean;
+    choices?: string[];
+    nested?: FieldRule[];
+}
+
+/** Condensed per-field rules, from the same metadata `get_entity` simplifies. */
+export function buildFieldRules(fields: any[] = []): FieldRule[] {
+    return fields.map((f: any) => ({
+        name: f.name,
+        label: f.label,
+        type: String(f.type || '').toUpperCase(),
+        many: f.multiplicity === 'MANY',
+        // CONDITION rules depend on other values at runtime, so only ALWAYS is enforced locally
+        required: f.generalRules?.required?.type === 'ALWAYS',
+        choices: f.type === 'CHOICE' ? f.typeRules?.values?.map((v: any) => v.name) : undefined,
+        nested: Array.isArray(f.nestedFields) ? buildFieldRules(f.nestedFields) : undefined,
+    }));
+}
+
+const EMAIL_PATTERN = /^[^@\s]+@[^@\s]+\.[^@\s]+$/;
+
+// Exact Slingr type names; matching substrings would also catch custom types such as TIMEZONE
+const NUMBER_TYPES = ['DECIMAL', 'MONEY', 'PERCENTAGE', 'NUMBER'];
+const DATE_TYPES = ['DATE', 'DATE_TIME', 'TIME'];
+const STRING_TYPES = ['TEXT', 'LONG_TEXT', 'HTML', 'PHONE', 'COLOR'];
+const TIME_PATTERN = /^\d{1,2}:\d{2}(:\d{2}(\.\d+)?)?$/;
+
+function describeValue(value: any): string {
+    const text = JSON.stringify(value);
+    return text && text.length > 60 ? `${text.slice(0, 57)}...` : String(text);
+}
+
+// Returns an error message for a single (non-array) value, or undefined when it fits the type
+function checkSingleValue(rule: FieldRule, value: any, path: string): string | undefined {
+    const type = rule.type;
+    const isString = typeof value === 'string';
+    const isNumber = typeof value === 'number' && Number.isFinite(value);
+
+    if (rule.choices) {
+        if (!isString || !rule.choices.includes(value)) {
+            return `${path}: ${describeValue(value)} is not a valid option. Allowed: ${rule.choices.join(', ')}.${isString ? didYouMean(value, rule.choices) : ''}`;
+        }
+        return undefined;
+    }
+
+    if (type === 'INTEGER') {
+        return Number.isInteger(value) ? undefined : `${path}: expected an integer, got ${describeValue(value)}.`;
+    }
+    if (NUMBER_TYPES.includes(type)) {
+        return isNumber ? undefined : `${path}: expected a number, got ${describeValue(value)}.`;
+    }
+    if (type === 'BOOLEAN') {
+        return typeof value === 'boolean' ? undefined : `${path}: expected true or false, got ${describeValue(value)}.`;
+    }
+    if (type === 'TIME' && isString && TIME_PATTERN.test(value)) {
+        return undefined;
+    }
+    if (DATE_TYPES.includes(type)) {
+        const valid = isNumber || (isString && !Number.isNaN(Date.parse(value)));
+        const expected = type === 'TIME' ? 'a time (HH:mm, ISO string or timestamp)' : 'a date (ISO string or timestamp)';
+        return valid ? undefined : `${path}: expected ${expected}, got ${describeValue(value)}.`;
+    }
+    if (type === 'EMAIL') {
+        return isString && EMAIL_PATTERN.test(value) ? undefined : `${path}: expected an email address, got ${describeValue(value)}.`;
+    }
+    if (type === 'URL') {
+        if (isString && URL.canParse(value)) return undefined;
+        return `${path}: expected a URL, got ${describeValue(value)}.`;
+    }
+    if (type === 'RELATIONSHIP') {
+        const valid = isString || (value && typeof value === 'object' && typeof value.id === 'string');
+        return valid ? undefined : `${path}: expected a record ID or an object with an 'id', got ${describeValue(value)}.`;
+    }
+    if (rule.nested) {
+        if (!value || typeof value !== 'object' || Array.isArray(value)) {
+            return `${path}: expected an object with the nested fields, got ${describeValue(value)}.`;
+        }
+        const nestedErrors = validateAgainstRules(rule.nested, value, 'create', `${path}.`);
+        return nestedErrors.length > 0 ? nestedErrors.join('\n') : undefined;
+    }
+    if (STRING_TYPES.includes(type)) {
+        return isString ? undefined : `${path}: expected a string, got ${describeValue(value)}.`;
+    }
+
+    // Types without a local rule (files, custom types...) are left to Slingr
+    return undefined;
+}
+
+function validateAgainstRules(rules: FieldRule[], data: Record<string, any>, mode: 'create' | 'update', prefix = ''): string[] {
+    const errors: string[] = [];
+    const names = rules.map(r => r.name);
+
+    for (const [key, value] of Object.entries(data)) {
+        if (SYSTEM_FIELDS.includes(key)) continue;
+
+        const rule = rules.find(r => r.name === key);
+        if (!rule) {
+            const byLabel = rules.find(r => r.label?.toLowerCase() === key.toLowerCase());
+            const hint = byLabel ? ` Did you mean '${byLabel.name}' (labelled '${byLabel.label}')?` : didYouMean(key, names);
+            errors.push(`${prefix}${key}: unknown field.${hint}`);
+            continue;
+        }
+
+        if (value === null) {
+            if (rule.required) errors.push(`${prefix}${key}: is required and can't be null.`);
+            continue;
+        }
+
+        if (rule.many) {
+            if (!Array.isArray(value)) {
+                errors.push(`${prefix}${key}: has multiplicity MANY, expected an array.`);
+                continue;
+            }
+            value.forEach((item, i) => {
+                const error = checkSingleValue(rule, item, `${prefix}${key}[${i}]`);
+                if (error) errors.push(error);
+            });
+        } else {
+            if (Array.isArray(value)) {
+                errors.push(`${prefix}${key}: has multiplicity ONE, got an array.`);
+                continue;
+            }
+            const error = checkSingleValue(rule, value, `${prefix}${key}`);
+            if (error) errors.push(error);
+        }
+    }
+
+    if (mode === 'create') {
+        for (const rule of rules) {
+            if (rule.required && (data[rule.name] === undefined || data[rule.name] === null)) {
+                errors.push(`${prefix}${rule.name}: is required.`);
+            }
+        }
+    }
+
+    return errors;
+}
+
+/**
+ * Checks a record payload against the entity's field rules. `create` also enforces
+ * required fields; `update` only checks the fields present in the payload.
+ */
+export function validateRecordData(metadata: any, data: any, mode: 'create' | 'update'): string[] {
+    if (!data || typeof data !== 'object' || Array.isArray(data)) {
+        return ["Record data must be an object."];
+    }
+    return validateAgainstRules(buildFieldRules(metadata.fields), data, mode);
+}
+
+export function renderValidationErrors(entityName: string, errors: string[]): string {
+    return `Record data for '${entityName}' is invalid, nothing was sent to Slingr:\n${errors.map(e => `- ${e}`).join('\n')}`;
+}
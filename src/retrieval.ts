@@ -0,0 +1,156 @@
+import * as lancedb from '@lancedb/lancedb';
+import { AutoModelForSequenceClassification, AutoTokenizer } from '@xenova/transformers';
+
+export interface SearchHit {
+    text: string;
+    source: string;
+    /** Loader that produced the chunk ('markdown', 'openapi', ...); missing in older tables. */
+    sourceType?: string;
+    /** Ranking score between 0 and 1, higher is better; relative to the other hits of the search. */
+    score: number;
+    /**
+     * Absolute relevance between 0 and 1 that thresholds are checked against: the reranker's
+     * score when one ran, else the cosine similarity of the query and chunk embeddings.
+     */
+    relevance?: number;
+    /** Heading breadcrumb ("Data > Queries"), anchor and line range of the chunk; missing in tables ingested before they were stored. */
+    headingPath?: string;
+    anchor?: string;
+    startLine?: number;
+    endLine?: number;
+}
+
+// The usual RRF constant; it damps the weight of the very first ranks
+const RRF_K = 60;
+
+/**
+ * Reciprocal rank fusion of several ranked result lists (e.g. vector and full-text hits).
+ * Rows are matched with `keyOf`; scores are scaled so a row ranked first in every list gets 1.
+ */
+export function reciprocalRankFusion<T>(lists: T[][], keyOf: (row: T) => string): { row: T, score: number }[] {
+    const fused = new Map<string, { row: T, score: number }>();
+    for (const list of lists) {
+        list.forEach((row, rank) => {
+            const key = keyOf(row);
+            const entry = fused.get(key) || { row, score: 0 };
+            entry.score += 1 / (RRF_K + rank + 1);
+            fused.set(key, entry);
+        });
+    }
+    const best = lists.length / (RRF_K + 1);
+    return [...fused.values()]
+        .map(entry => ({ row: entry.row, score: entry.score / best }))
+        .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Makes sure `table` has a full-text index on `text` (tables written before hybrid search
+ * lack it); `rebuild` refreshes it after rows changed. False when it can't be built.
+ */
+export async function ensureFullTextIndex(table: any, rebuild = false): Promise<boolean> {
+    try {
+        const indices = await table.listIndices();
+        if (rebuild || !indices.some((i: any) => i.indexType === 'FTS' && i.columns.includes('text'))) {
+            await table.createIndex('text', { config: lancedb.Index.fts(), replace: true });
+        }
+        return true;
+    } catch (e: any) {
+        console.error(`⚠️ Full-text index unavailable, using vector search only: ${e.message}`);
+        return false;
+    }
+}
+
+/** Cosine similarity of two embeddings, clamped to 0-1. */
+export function cosineSimilarity(a: ArrayLike<number>, b: ArrayLike<number>): number {
+    let dot = 0, normA = 0, normB = 0;
+    for (let i = 0; i < a.length; i++) {
+        dot += a[i] * b[i];
+        normA += a[i] * a[i];
+        normB += b[i] * b[i];
+    }
+    return normA && normB ? Math.max(0, dot / Math.sqrt(normA * normB)) : 0;
+}
+
+export interface HybridQuery {
+    vector: number[];
+    text: string;
+    /** SQL filter applied to both searches. */
+    filter?: string;
+    /** Hits taken from each search before fusing. */
+    candidates: number;
+    fullText: boolean;
+}
+
+/**
+ * Hybrid search: vector and full-text (BM25) hits are fused with reciprocal rank fusion,
+ * so exact identifiers like `sys.data.find` surface even when their embedding is vague.
+ * Fused scores only rank the hits (the first one always scores high), so each hit also
+ * carries the cosine similarity of its stored vector to the query.
+ */
+export async function hybridSearch(table: any, query: HybridQuery, keyOf: (row: any) => string): Promise<{ row: any, score: number, similarity: number }[]> {
+    let vectorQuery = table.vectorSearch(query.vector);
+    if (query.filter) vectorQuery = vectorQuery.where(query.filter);
+    const lists: any[][] = [await vectorQuery.limit(query.candidates).toArray()];
+
+    if (query.fullText) {
+        try {
+            let textQuery = table.query().fullTextSearch(query.text);
+            if (query.filter) textQuery = textQuery.where(query.filter);
+            lists.push(await textQuery.limit(query.candidates).toArray());
+        } catch (e: any) {
+            console.error(`⚠️ Full-text search failed, using vector hits only: ${e.message}`);
+        }
+    }
+    return reciprocalRankFusion(lists, keyOf)
+        .map(({ row, score }) => ({ row, score, similarity: row.vector ? cosineSimilarity(query.vector, Array.from(row.vector as ArrayLike<number>)) : 0 }));
+}
+
+/** Quotes a value for a LanceDB SQL filter. */
+export function sqlString(value: string): string {
+    return `'${value.replace(/'/g, "''")}'`;
+}
+
+/** Filter for values of `column` starting with `prefix`, taken literally (`%` and `_` included). */
+export function sqlStartsWith(column: string, prefix: string): string {
+    return `${column} LIKE ${sqlString(`${prefix.replace(/[\\%_]/g, '\\$&')}%`)} ESCAPE '\\'`;
+}
+
+/**
+ * Scores (query, passage) pairs with a local cross-encoder such as
+ * `Xenova/ms-marco-MiniLM-L-6-v2`. The model is loaded on first use.
+ */
+export class CrossEncoderReranker {
+    private loading?: Promise<{ tokenizer: any, model: any }>;
+
+    constructor(readonly modelName: string) {}
+
+    private load() {
+        if (!this.loading) {
+            this.loading = Promise.all([
+                AutoTokenizer.from_pretrained(this.modelName),
+                AutoModelForSequenceClassification.from_pretrained(this.modelName),
+            ]).then(([tokenizer, model]) => ({ tokenizer, model }));
+            // Let a failed download be retried on the next search
+            this.loading.catch(() => { this.loading = undefined; });
+        }
+        return this.loading;
+    }
+
+    async rerank(query: string, hits: SearchHit[]): Promise<SearchHit[]> {
+        if (hits.length === 0) return hits;
+        const { tokenizer, model } = await this.load();
+        const inputs = tokenizer(hits.map(() => query), {
+            text_pair: hits.map(h => h.text),
+            padding: true,
+            truncation: true,
+        });
+        const { logits } = await model(inputs);
+        const scores: number[] = Array.from(logits.data as Float32Array);
+        return hits
+            .map((hit, i) => {
+                const score = 1 / (1 + Math.exp(-scores[i]));
+                return { ...hit, score, relevance: score };
+            })
+            .sort((a, b) => b.score - a.score);
+    }
+}
@@ -0,0 +1,90 @@
+import type { AxiosInstance } from "axios";
+import { mapWithConcurrency } from "./concurrency.js";
+import { fetchEntities, fetchEntityMetadata, type EntitySummary } from "./metadata.js";
+
+export interface IncomingRelationship {
+    entity: string;
+    field: string;
+    many: boolean;
+}
+
+export interface EntityImpact {
+    entity: EntitySummary;
+    fieldCount: number;
+    /** Undefined when the runtime API couldn't be queried (e.g. the app is stopped). */
+    recordCount?: number;
+    incoming: IncomingRelationship[];
+}
+
+export interface FieldImpact {
+    entity: string;
+    field: any;
+    recordCount?: number;
+    /** Records where the field has a value, i.e. the data a delete would drop. */
+    recordsWithValue?: number;
+}
+
+async function countRecords(runtimeClient: AxiosInstance, entityName: string, params: Record<string, string> = {}): Promise<number | undefined> {
+    try {
+        const query = new URLSearchParams({ ...params, _size: '1', _fields: 'id' });
+        const response = await runtimeClient.get(`/data/${entityName}?${query.toString()}`);
+        return response.data.total;
+    } catch (error: any) {
+        console.error(`⚠️ Could not count records of '${entityName}': ${error.message}`);
+        return undefined;
+    }
+}
+
+/** Relationship fields in the other entities of the app that point at `entityId`. */
+export async function findIncomingRelationships(builderClient: AxiosInstance, entityId: string): Promise<IncomingRelationship[]> {
+    const entities = await fetchEntities(builderClient);
+    const perEntity = await mapWithConcurrency(entities, 4, async (entity) => {
+        const metadata = await fetchEntityMetadata(builderClient, entity.id);
+        return (metadata.fields || [])
+            .filter((f: any) => entity.id !== entityId && f.type === 'RELATIONSHIP' && f.typeRules?.entityId === entityId)
+            .map((f: any) => ({ entity: entity.name, field: f.name, many: f.multiplicity === 'MANY' }));
+    });
+    return perEntity.flat();
+}
+
+export async function assessEntityImpact(builderClient: AxiosInstance, runtimeClient: AxiosInstance, entity: EntitySummary): Promise<EntityImpact> {
+    const metadata = await fetchEntityMetadata(builderClient, entity.id);
+    const [recordCount, incoming] = await Promise.all([
+        countRecords(runtimeClient, metadata.name),
+        findIncomingRelationships(builderClient, entity.id),
+    ]);
+    return { entity, fieldCount: (metadata.fields || []).length, recordCount, incoming };
+}
+
+export async function assessFieldImpact(runtimeClient: AxiosInstance, entityName: string, field: any): Promise<FieldImpact> {
+    const [recordCount, recordsWithValue] = await Promise.all([
+        countRecords(runtimeClient, entityName),
+        countRecords(runtimeClient, entityName, { [field.name]: 'notEmpty()' }),
+    ]);
+    return { entity: entityName, field, recordCount, recordsWithValue };
+}
+
+const count = (n?: number) => (n === undefined ? 'unknown (runtime not reachable)' : String(n));
+
+export function renderEntityImpact(impact: EntityImpact): string {
+    const lines = [
+        `Deleting entity '${impact.entity.name}' (${impact.entity.fullPath || impact.entity.label}):`,
+        `- Records that will be lost: ${count(impact.recordCount)}`,
+        `- Fields: ${impact.fieldCount}`,
+    ];
+    if (impact.incoming.length > 0) {
+        lines.push(`- Relationship fields in other entities pointing at it (${impact.incoming.length}):`);
+        lines.push(...impact.incoming.map(r => `  - ${r.entity}.${r.field}${r.many ? ' (many)' : ''}`));
+    } else {
+        lines.push('- No relationship fields point at it.');
+    }
+    return lines.join('\n');
+}
+
+export function renderFieldImpact(impact: FieldImpact): string {
+    return [
+        `Deleting field '${impact.entity}.${impact.field.name}' (${impact.field.type}):`,
+        `- Records in the entity: ${count(impact.recordCount)}`,
+        `- Records with a value that will be lost: ${count(impact.recordsWithValue)}`,
+    ].join('\n');
+}
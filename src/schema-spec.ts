@@ -0,0 +1,338 @@
+import type { AxiosInstance } from "axios";
+import fs from "fs";
+import path from "path";
+import { parse as parseYaml } from "yaml";
+import { z } from "zod";
+import {
+    buildFieldPayload,
+    choiceOptionSchema,
+    fieldDefinitionFromMetadata,
+    labelText,
+    normalizeChoiceOptions,
+    requiredRule,
+    validateFieldDefinition,
+    type FieldDefinition,
+} from "./field-types.js";
+import { fetchEntities, fetchEntityMetadata, matchesEntity, resolveField } from "./metadata.js";
+
+const fieldSpecSchema = z.object({
+    name: z.string().regex(/^[a-zA-Z][a-zA-Z0-9]*$/, "Field names must be camelCase letters and digits"),
+    label: z.string().optional(),
+    type: z.string().transform(t => t.toUpperCase()),
+    multiplicity: z.enum(["ONE", "MANY"]).default("ONE"),
+    /** Left out, a live field keeps its required rule (which may be conditional). */
+    required: z.boolean().optional(),
+    defaultValue: z.any().optional(),
+    unique: z.boolean().optional(),
+    indexed: z.boolean().optional(),
+    rules: z.record(z.any()).optional(),
+    options: z.array(choiceOptionSchema).optional(),
+    /** Related entity name, for RELATIONSHIP fields. */
+    entity: z.string().optional(),
+});
+
+const entitySpecSchema = z.object({
+    name: z.string().regex(/^[a-zA-Z][a-zA-Z0-9]*$/, "Entity names must be camelCase letters and digits"),
+    label: z.string().optional(),
+    fields: z.array(fieldSpecSchema).default([]),
+});
+
+/** `orderLines` -> `Order lines` */
+function humanize(name: string): string {
+    const words = name.replace(/([a-z0-9])([A-Z])/g, '$1 $2').toLowerCase();
+    return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+function toFieldDefinition(field: z.infer<typeof fieldSpecSchema>, relatedEntityId: string | undefined): FieldDefinition {
+    return {
+        name: field.name,
+        label: field.label || humanize(field.name),
+        type: field.type,
+        multiplicity: field.multiplicity,
+        required: field.required,
+        defaultValue: field.defaultValue,
+        unique: field.unique,
+        indexed: field.indexed,
+        rules: field.rules,
+        options: field.options,
+        relatedEntityId,
+    };
+}
+
+export const schemaSpecSchema = z.object({
+    entities: z.array(entitySpecSchema),
+}).superRefine((spec, ctx) => {
+    const seen = new Set<string>();
+    spec.entities.forEach((entity, i) => {
+        if (seen.has(entity.name)) {
+            ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['entities', i, 'name'], message: `Entity '${entity.name}' is declared twice.` });
+        }
+        seen.add(entity.name);
+        const fieldNames = new Set<string>();
+        entity.fields.forEach((field, j) => {
+            const at = ['entities', i, 'fields', j];
+            if (fieldNames.has(field.name)) {
+                ctx.addIssue({ code: z.ZodIssueCode.custom, path: [...at, 'name'], message: `Field '${entity.name}.${field.name}' is declared twice.` });
+            }
+            fieldNames.add(field.name);
+            if (field.type === 'RELATIONSHIP' && !field.entity) {
+                ctx.addIssue({ code: z.ZodIssueCode.custom, path: [...at, 'entity'], message: `RELATIONSHIP field '${entity.name}.${field.name}' needs the related 'entity'.` });
+            }
+            // The target is checked against the app when planning, any placeholder ID will do here
+            const definition = toFieldDefinition(field, field.entity ? 'pending' : undefined);
+            for (const message of validateFieldDefinition(definition)) {
+                if (field.type === 'RELATIONSHIP' && !field.entity && message.startsWith('RELATIONSHIP')) continue;
+                ctx.addIssue({ code: z.ZodIssueCode.custom, path: at, message: `${entity.name}.${field.name}: ${message}` });
+            }
+        });
+    });
+});
+
+export type SchemaSpec = z.infer<typeof schemaSpecSchema>;
+export type FieldSpec = z.infer<typeof fieldSpecSchema>;
+
+/** Reads a schema spec from a `.yaml`/`.yml` or `.json` file and validates it. */
+export function loadSchemaSpec(filePath: string): SchemaSpec {
+    const text = fs.readFileSync(filePath, 'utf-8');
+    const ext = path.extname(filePath).toLowerCase();
+    const raw = ext === '.yaml' || ext === '.yml' ? parseYaml(text) : JSON.parse(text);
+    return schemaSpecSchema.parse(raw);
+}
+
+/** The entity creation payload, shared with `create_entity`. */
+export function buildEntityPayload(name: string, label: string) {
+    return {
+        name,
+        label: { defaultValue: label, translation: { en: label } },
+        type: "DATA",
+        fieldsNotRequired: true
+    };
+}
+
+export type SchemaChange =
+    | { action: 'createEntity', entity: string, label: string }
+    | { action: 'updateEntity', entity: string, entityId: string, label: string, changes: string[] }
+    | { action: 'createField', entity: string, entityId?: string, field: FieldSpec }
+    | { action: 'updateField', entity: string, entityId: string, fieldId: string, field: FieldSpec, changes: string[] }
+    | { action: 'conflict', entity: string, field: string, reason: string };
+
+export interface SchemaPlan {
+    changes: SchemaChange[];
+    unchanged: string[];
+    /** Live fields of managed entities that the spec doesn't mention. They are never touched. */
+    unmanaged: string[];
+}
+
+function compareField(field: FieldSpec, live: any, targetId: string | undefined): { changes: string[], conflict?: string } {
+    const liveType = String(live.type || '').toUpperCase();
+    if (liveType !== field.type) {
+        return { changes: [], conflict: `type change ${liveType} → ${field.type} is not applied; it would drop existing values. Create a new field instead.` };
+    }
+    if (field.type === 'RELATIONSHIP' && live.typeRules?.entityId !== targetId) {
+        return { changes: [], conflict: `it already points to another entity; changing a relationship target is not applied.` };
+    }
+
+    const changes: string[] = [];
+    const label = field.label || humanize(field.name);
+    if (labelText(live.label) !== label) changes.push(`label: "${labelText(live.label)}" → "${label}"`);
+    const liveMultiplicity = live.multiplicity || 'ONE';
+    if (liveMultiplicity !== field.multiplicity) changes.push(`multiplicity: ${liveMultiplicity} → ${field.multiplicity}`);
+    if (field.required !== undefined) {
+        const liveRequired = requiredRule(live);
+        if (typeof liveRequired === 'string') {
+            return { changes: [], conflict: `it has a ${liveRequired} required rule; 'required: ${field.required}' would replace it, so it is not applied. Drop 'required' from the spec to keep the rule, or change it in the builder.` };
+        }
+        if (liveRequired !== field.required) changes.push(`required: ${liveRequired} → ${field.required}`);
+    }
+
+    // Only compare the optional settings the spec states; leaving one out keeps whatever is live
+    const liveSettings: Record<string, any> = {
+        defaultValue: live.defaultValue,
+        unique: live.unique ?? false,
+        indexed: live.indexable ?? false,
+    };
+    for (const key of ['defaultValue', 'unique', 'indexed'] as const) {
+        if (field[key] !== undefined && JSON.stringify(liveSettings[key]) !== JSON.stringify(field[key])) {
+            changes.push(`${key}: ${JSON.stringify(liveSettings[key])} → ${JSON.stringify(field[key])}`);
+        }
+    }
+    for (const [rule, value] of Object.entries(field.rules || {})) {
+        if (JSON.stringify(live.typeRules?.[rule]) !== JSON.stringify(value)) {
+            changes.push(`rules.${rule}: ${JSON.stringify(live.typeRules?.[rule])} → ${JSON.stringify(value)}`);
+        }
+    }
+
+    if (field.type === 'CHOICE') {
+        const liveOptions = (live.typeRules?.values || []).map((v: any) => ({ name: v.name, label: labelText(v.label) }));
+        const specOptions = normalizeChoiceOptions(field.options);
+        const added = specOptions.filter(o => !liveOptions.some((l: any) => l.name === o.name)).map(o => `+${o.name}`);
+        const removed = liveOptions.filter((l: any) => !specOptions.some(o => o.name === l.name)).map((l: any) => `-${l.name}`);
+        const relabelled = specOptions.filter(o => liveOptions.some((l: any) => l.name === o.name && l.label !== o.label)).map(o => `~${o.name}`);
+        const optionChanges = [...added, ...removed, ...relabelled];
+        if (optionChanges.length > 0) changes.push(`options: ${optionChanges.join(', ')}`);
+    }
+    return { changes };
+}
+
+/**
+ * Diffs a spec against the live metadata. Entities and fields are matched by name; nothing
+ * that exists live but is missing from the spec is ever removed.
+ */
+export async function planSchema(builderClient: AxiosInstance, spec: SchemaSpec): Promise<SchemaPlan> {
+    const liveEntities = await fetchEntities(builderClient);
+    const specNames = new Set(spec.entities.map(e => e.name));
+
+    const missingTargets = spec.entities.flatMap(e => e.fields
+        .filter(f => f.entity && !specNames.has(f.entity) && !liveEntities.some(l => matchesEntity(l, f.entity!)))
+        .map(f => `${e.name}.${f.name} → ${f.entity}`));
+    if (missingTargets.length > 0) {
+        throw new Error(`Relationship targets are neither in the spec nor in the app: ${missingTargets.join(', ')}`);
+    }
+    const liveId = (name: string) => liveEntities.find(l => matchesEntity(l, name))?.id;
+
+    const plan: SchemaPlan = { changes: [], unchanged: [], unmanaged: [] };
+    for (const entity of spec.entities) {
+        const label = entity.label || humanize(entity.name);
+        const existing = liveEntities.find(l => l.name === entity.name);
+
+        if (!existing) {
+            plan.changes.push({ action: 'createEntity', entity: entity.name, label });
+            entity.fields.forEach(field => plan.changes.push({ action: 'createField', entity: entity.name, field }));
+            continue;
+        }
+
+        const metadata = await fetchEntityMetadata(builderClient, existing.id);
+        if (labelText(metadata.label) !== label) {
+            plan.changes.push({ action: 'updateEntity', entity: entity.name, entityId: existing.id, label, changes: [`label: "${labelText(metadata.label)}" → "${label}"`] });
+        }
+
+        const liveFields: any[] = metadata.fields || [];
+        for (const field of entity.fields) {
+            const live = liveFields.find(f => f.name === field.name);
+            if (!live) {
+                plan.changes.push({ action: 'createField', entity: entity.name, entityId: existing.id, field });
+                continue;
+            }
+            const { changes, conflict } = compareField(field, live, field.entity ? liveId(field.entity) : undefined);
+            if (conflict) {
+                plan.changes.push({ action: 'conflict', entity: entity.name, field: field.name, reason: conflict });
+            } else if (changes.length > 0) {
+                plan.changes.push({ action: 'updateField', entity: entity.name, entityId: existing.id, fieldId: live.id, field, changes });
+            } else {
+                plan.unchanged.push(`${entity.name}.${field.name}`);
+            }
+        }
+        liveFields
+            .filter(f => !entity.fields.some(s => s.name === f.name))
+            .forEach(f => plan.unmanaged.push(`${entity.name}.${f.name}`));
+    }
+    return plan;
+}
+
+function describeField(field: FieldSpec): string {
+    const details = [field.type, field.multiplicity === 'MANY' ? 'many' : undefined, field.required ? 'required' : undefined,
+        field.entity ? `→ ${field.entity}` : undefined,
+        field.options ? `options: ${normalizeChoiceOptions(field.options).map(o => o.name).join('|')}` : undefined];
+    return details.filter(Boolean).join(', ');
+}
+
+export function renderSchemaPlan(plan: SchemaPlan): string {
+    const count = (action: SchemaChange['action']) => plan.changes.filter(c => c.action === action).length;
+    const creates = count('createEntity') + count('createField');
+    const updates = count('updateEntity') + count('updateField');
+    const lines = [`Schema plan: ${creates} to create, ${updates} to change, ${plan.unchanged.length} unchanged, ${count('conflict')} conflicts.`];
+
+    for (const change of plan.changes) {
+        switch (change.action) {
+            case 'createEntity':
+                lines.push(`+ entity ${change.entity} ("${change.label}")`);
+                break;
+            case 'updateEntity':
+                lines.push(`~ entity ${change.entity}: ${change.changes.join('; ')}`);
+                break;
+            case 'createField':
+                lines.push(`+ field ${change.entity}.${change.field.name} (${describeField(change.field)})`);
+                break;
+            case 'updateField':
+                lines.push(`~ field ${change.entity}.${change.field.name}: ${change.changes.join('; ')}`);
+                break;
+            case 'conflict':
+                lines.push(`! field ${change.entity}.${change.field}: ${change.reason}`);
+                break;
+        }
+    }
+    if (plan.unmanaged.length > 0) {
+        lines.push('', `Not in the spec (left alone): ${plan.unmanaged.join(', ')}`);
+    }
+    return lines.join('\n');
+}
+
+export interface SchemaApplyResult {
+    applied: string[];
+    failed?: { step: string, error: string };
+}
+
+/**
+ * Carries out a plan in dependency order: new entities first, then entity label changes,
+ * plain fields, and finally relationship fields, whose targets may have just been created.
+ * Stops at the first failure, since later steps may depend on it. Conflicts are skipped.
+ */
+export async function applySchemaPlan(builderClient: AxiosInstance, plan: SchemaPlan): Promise<SchemaApplyResult> {
+    const liveEntities = await fetchEntities(builderClient);
+    const entityIds = new Map(liveEntities.map(e => [e.name, e.id]));
+    const applied: string[] = [];
+
+    const isRelationship = (c: SchemaChange) => (c.action === 'createField' || c.action === 'updateField') && c.field.type === 'RELATIONSHIP';
+    const order: SchemaChange['action'][] = ['createEntity', 'updateEntity', 'createField', 'updateField'];
+    const steps = [
+        ...order.flatMap(action => plan.changes.filter(c => c.action === action && !isRelationship(c))),
+        ...plan.changes.filter(isRelationship),
+    ];
+
+    const fieldDefinition = (field: FieldSpec): FieldDefinition => toFieldDefinition(field,
+        field.entity ? entityIds.get(field.entity) ?? liveEntities.find(l => matchesEntity(l, field.entity!))?.id : undefined);
+
+    for (const step of steps) {
+        let label = '';
+        try {
+            switch (step.action) {
+                case 'createEntity': {
+                    label = `create entity ${step.entity}`;
+                    const response = await builderClient.post("/entities", buildEntityPayload(step.entity, step.label));
+                    entityIds.set(step.entity, response.data.id);
+                    break;
+                }
+                case 'updateEntity':
+                    label = `update entity ${step.entity}`;
+                    await builderClient.put(`/entities/${step.entityId}`, { label: { defaultValue: step.label, translation: { en: step.label } } });
+                    break;
+                case 'createField': {
+                    label = `create field ${step.entity}.${step.field.name}`;
+                    const entityId = step.entityId ?? entityIds.get(step.entity);
+                    const definition = fieldDefinition(step.field);
+                    await builderClient.post(`/entities/${entityId}/fields`, buildFieldPayload({ ...definition, required: definition.required ?? false }));
+                    break;
+                }
+                case 'updateField': {
+                    label = `update field ${step.entity}.${step.field.name}`;
+                    // The spec goes on top of the live field, so settings it leaves out are kept (as update_field does)
+                    const metadata = await fetchEntityMetadata(builderClient, step.entityId, { fresh: true });
+                    const live = fieldDefinitionFromMetadata(resolveField(metadata, step.fieldId));
+                    const spec = fieldDefinition(step.field);
+                    const stated = Object.fromEntries(Object.entries(spec).filter(([, value]) => value !== undefined));
+                    const merged: FieldDefinition = { ...live, ...stated, rules: spec.rules ? { ...live.rules, ...spec.rules } : live.rules };
+                    await builderClient.put(`/entities/${step.entityId}/fields/${step.fieldId}`, buildFieldPayload(merged));
+                    break;
+                }
+            }
+            applied.push(label);
+            console.error(`🏗️ Schema: ${label}`);
+        } catch (error: any) {
+            const message = error.response
+                ? `Slingr Error (${error.response.status}): ${JSON.stringify(error.response.data)}`
+                : error.message;
+            return { applied, failed: { step: label, error: message } };
+        }
+    }
+    return { applied };
+}
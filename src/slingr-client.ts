@@ -1,60 +1,114 @@
-import axios, { type AxiosInstance } from "axios";
+import axios, { type AxiosInstance, type InternalAxiosRequestConfig } from "axios";
 import dotenv from "dotenv";
+import { AuthSession, createAuthProvider, resolveAuthProviderKind } from "./auth.js";
+import { bindMetadataCache } from "./metadata-cache.js";
+import { loadProfiles, type EnvironmentProfile } from "./profiles.js";
 
 dotenv.config();
 
-const SLINGR_BUILDER_API_URL = process.env.SLINGR_BUILDER_API_URL || process.env.SLINGR_API_URL;
-const SLINGR_RUNTIME_API_URL = process.env.SLINGR_RUNTIME_API_URL || SLINGR_BUILDER_API_URL?.replace('/builder/api', '/runtime/api');
-const SLINGR_EMAIL = process.env.SLINGR_EMAIL;
-const SLINGR_PASSWORD = process.env.SLINGR_PASSWORD;
-
-if (!SLINGR_EMAIL || !SLINGR_PASSWORD || !SLINGR_BUILDER_API_URL || !SLINGR_RUNTIME_API_URL) {
-    throw new Error("Error: SLINGR_EMAIL, SLINGR_PASSWORD, SLINGR_BUILDER_API_URL or SLINGR_RUNTIME_API_URL not defined in .env");
-}
-
-export const builderClient: AxiosInstance = axios.create({
-    baseURL: SLINGR_BUILDER_API_URL,
-    headers: {
-        "Content-Type": "application/json",
-    },
-});
-
-export const runtimeClient: AxiosInstance = axios.create({
-    baseURL: SLINGR_RUNTIME_API_URL,
-    headers: {
-        "Content-Type": "application/json",
-    },
-});
-
-export async function loginToSlingr(): Promise<void> {
-    const defaultLoginUrl = `${new URL(SLINGR_BUILDER_API_URL as string).origin}/dev/builder/api/auth/login`;
-    const loginUrl = process.env.SLINGR_LOGIN_URL || defaultLoginUrl;
-
-    try {
-        const response = await axios.post(loginUrl, {
-            email: SLINGR_EMAIL,
-            password: SLINGR_PASSWORD
-        }, {
-            headers: {
-                "Content-Type": "application/json"
-            }
-        });
-
-        const token = response.data?.token;
-
-        if (!token) {
-            throw new Error("Login response did not contain a token.");
+const { defaultEnvironment, profiles } = loadProfiles();
+
+/** The authenticated builder/runtime client pair for one environment. */
+export interface SlingrClients {
+    environment: string;
+    builderClient: AxiosInstance;
+    runtimeClient: AxiosInstance;
+    session: AuthSession;
+}
+
+const clientCache = new Map<string, SlingrClients>();
+
+type RetriableRequestConfig = InternalAxiosRequestConfig & { _authRetried?: boolean };
+
+/**
+ * Injects the session token into every request and, when Slingr answers 401,
+ * re-authenticates once (shared with any concurrent failures) and replays the request.
+ */
+function attachAuthInterceptors(client: AxiosInstance, session: AuthSession) {
+    client.interceptors.request.use(async (config) => {
+        config.headers.set("token", await session.getToken());
+        return config;
+    });
+
+    client.interceptors.response.use(undefined, async (error) => {
+        const config = error.config as RetriableRequestConfig | undefined;
+        if (!config || config._authRetried || error.response?.status !== 401 || !session.provider.refreshable) {
+            throw error;
         }
 
-        // Apply token to both Axios instances
-        builderClient.defaults.headers.common["token"] = token;
-        runtimeClient.defaults.headers.common["token"] = token;
-        console.error("✅ Successfully logged in to Slingr API.");
+        config._authRetried = true;
+        const staleToken = config.headers.get("token") as string | undefined;
+        console.error(`🔑 Slingr token rejected, re-authenticating (${session.provider.name})...`);
+        const token = await session.refresh(staleToken);
+        config.headers.set("token", token);
+        return client.request(config);
+    });
+}
+
+function createClients(profile: EnvironmentProfile): SlingrClients {
+    const session = new AuthSession(createAuthProvider(profile.auth));
+
+    const builderClient = axios.create({
+        baseURL: profile.builderApiUrl,
+        headers: {
+            "Content-Type": "application/json",
+        },
+    });
+
+    const runtimeClient = axios.create({
+        baseURL: profile.runtimeApiUrl,
+        headers: {
+            "Content-Type": "application/json",
+        },
+    });
+
+    attachAuthInterceptors(builderClient, session);
+    attachAuthInterceptors(runtimeClient, session);
+    bindMetadataCache(builderClient, profile.name);
 
-    } catch (error: any) {
-        const errorMsg = error.response
-            ? `Status: ${error.response.status}, Body: ${JSON.stringify(error.response.data)}`
-            : error.message;
-        throw new Error(`Failed to login to Slingr API: ${errorMsg}`);
+    return { environment: profile.name, builderClient, runtimeClient, session };
+}
+
+export function resolveEnvironment(environment?: string): string {
+    const name = environment || defaultEnvironment;
+    if (!profiles.has(name)) {
+        throw new Error(`Environment '${name}' is not configured. Available: ${[...profiles.keys()].join(', ')}`);
+    }
+    return name;
+}
+
+/**
+ * Returns the client pair for `environment` (or the default one). Clients are created
+ * on first use and authenticate lazily on their first request.
+ */
+export function getClients(environment?: string): SlingrClients {
+    const name = resolveEnvironment(environment);
+    let clients = clientCache.get(name);
+    if (!clients) {
+        clients = createClients(profiles.get(name)!);
+        clientCache.set(name, clients);
     }
+    return clients;
+}
+
+export function getEnvironmentProfile(environment?: string): EnvironmentProfile {
+    return profiles.get(resolveEnvironment(environment))!;
+}
+
+export function listEnvironments() {
+    return [...profiles.values()].map(p => ({
+        name: p.name,
+        description: p.description,
+        builderApiUrl: p.builderApiUrl,
+        runtimeApiUrl: p.runtimeApiUrl,
+        authProvider: resolveAuthProviderKind(p.auth),
+        policy: p.policy,
+        isDefault: p.name === defaultEnvironment,
+    }));
+}
+
+export async function loginToSlingr(environment?: string): Promise<void> {
+    const { environment: name, session } = getClients(environment);
+    await session.refresh();
+    console.error(`✅ Successfully authenticated to Slingr API '${name}' (${session.provider.name}).`);
 }
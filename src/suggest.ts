@@ -0,0 +1,38 @@
+function editDistance(a: string, b: string): number {
+    const previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+    for (let i = 1; i <= a.length; i++) {
+        let diagonal = previous[0];
+        previous[0] = i;
+        for (let j = 1; j <= b.length; j++) {
+            const above = previous[j];
+            previous[j] = Math.min(
+                previous[j] + 1,
+                previous[j - 1] + 1,
+                diagonal + (a[i - 1] === b[j - 1] ? 0 : 1)
+            );
+            diagonal = above;
+        }
+    }
+    return previous[b.length];
+}
+
+/** The candidate closest to `input` (case-insensitive), if it's close enough to be a likely typo. */
+export function closestMatch(input: string, candidates: string[]): string | undefined {
+    const needle = input.toLowerCase();
+    let best: string | undefined;
+    let bestDistance = Infinity;
+    for (const candidate of candidates) {
+        const distance = editDistance(needle, candidate.toLowerCase());
+        if (distance < bestDistance) {
+            best = candidate;
+            bestDistance = distance;
+        }
+    }
+    return best !== undefined && bestDistance <= Math.max(2, Math.floor(needle.length / 3)) ? best : undefined;
+}
+
+/** " Did you mean 'x'?" when a close candidate exists, otherwise an empty string. */
+export function didYouMean(input: string, candidates: string[]): string {
+    const match = closestMatch(input, candidates);
+    return match ? ` Did you mean '${match}'?` : '';
+}
@@ -1,38 +1,269 @@
 import { z } from "zod";
-import { builderClient, runtimeClient } from "./slingr-client.js";
-import { ragSystem } from "./rag.js";
+import { getClients, listEnvironments } from "./slingr-client.js";
+import { citationUri, ragSystem, renderIngestionJob } from "./rag.js";
+import { SOURCE_TYPES } from "./doc-loaders.js";
+import { generateEntityTypes } from "./codegen.js";
+import { buildEntityGraph, renderEntityGraph } from "./er-diagram.js";
+import {
+    APP_METADATA_KINDS,
+    refreshAppMetadataIndex,
+    renderAppIndexSummary,
+    renderAppMetadataHits,
+    searchAppMetadata,
+} from "./app-metadata-index.js";
+import { diffEnvironmentMetadata, renderMetadataDiff } from "./environment-diff.js";
+import { invalidateMetadataCache, isMetadataCacheEnabled, metadataCacheStats } from "./metadata-cache.js";
+import {
+    buildFieldPayload,
+    choiceOptionSchema,
+    describeFieldTypes,
+    FIELD_TYPES,
+    fieldDefinitionFromMetadata,
+    requiredRule,
+    validateFieldDefinition,
+    type FieldDefinition,
+} from "./field-types.js";
+import { fetchEntities, fetchEntityMetadata, fetchGroups, resolveEntity, resolveField, warmUpMetadata } from "./metadata.js";
+import { assessEntityImpact, assessFieldImpact, renderEntityImpact, renderFieldImpact } from "./schema-impact.js";
+import { buildPermissionMatrix, renderPermissionMatrix } from "./permission-matrix.js";
+import {
+    createPermissionSnapshot,
+    diffSnapshotWithLive,
+    listPermissionSnapshots,
+    loadPermissionSnapshot,
+    planPermissionRestore,
+    renderRestorePlan,
+    snapshotEntitiesInScope,
+} from "./permission-snapshots.js";
+import { appendChangelogEntry, fetchPendingChanges, renderPendingChanges, summarizePendingChanges } from "./pending-changes.js";
+import { exportRecords } from "./record-export.js";
+import { applySchemaPlan, buildEntityPayload, loadSchemaSpec, planSchema, renderSchemaPlan, schemaSpecSchema, type SchemaSpec } from "./schema-spec.js";
+import { importRecords } from "./record-import.js";
+import { renderValidationErrors, validateRecordData } from "./record-validation.js";
+import {
+    buildRecordQueryParams,
+    decodeCursor,
+    encodeCursor,
+    iterateRecordPages,
+    recordQueryProperties,
+    recordQuerySchema,
+    validateRecordQuery,
+} from "./record-query.js";
+import {
+    createPropagationRun,
+    executePropagation,
+    loadPropagationRun,
+    previewPropagation,
+    remainingPropagationEntries,
+    renderPropagationReport,
+    resolvePropagationEntities,
+} from "./propagation.js";
+import {
+    applyGroupUpdate,
+    buildGroupUpdate,
+    copyGroupPermissions,
+    fetchEntityPermissions,
+    findGroupPermissions,
+    formatPermission,
+    matchesGroup,
+    renderPermissionDiff,
+} from "./permissions.js";
 import path from "path";
+import fs from "fs";
+
+// A type alias (not an interface) so it stays assignable to the SDK's result type
+export type ToolResult = {
+    content: any[];
+    isError?: boolean;
+};
+
+/** "read" tools never change anything; "write" and "destructive" tools go through the safety policy (see policy.ts). */
+export type ToolAccess = "read" | "write" | "destructive";
 
 export interface ToolDefinition {
     name: string;
     description: string;
     inputSchema: any;
-    execute: (args: any) => Promise<{ content: any[], isError?: boolean }>;
+    /** Defaults to "read". */
+    access?: ToolAccess;
+    /** True when the tool honours a `dryRun` argument; dry runs skip the write checks of the policy. */
+    supportsDryRun?: boolean;
+    /** The argument that makes a call a dry run, when it isn't named `dryRun`. */
+    dryRunArgument?: string;
+    /** Always ask for a confirmation token, even where the policy's confirm mode would skip it. */
+    alwaysConfirm?: boolean;
+    /** Describes what the call would change; shown when the policy asks for confirmation. */
+    preview?: (args: any) => Promise<string>;
+    /** Entities the call touches, for tools that don't name them in entityId/entityName/entities. */
+    targetEntities?: (args: any) => string[] | Promise<string[]>;
+    /** Environment the call runs against when it isn't `args.environment` (e.g. a resumed run's). */
+    targetEnvironment?: (args: any) => string | undefined;
+    execute: (args: any) => Promise<ToolResult>;
+}
+
+// Shared by every tool that talks to the Slingr API
+const environmentProperty = {
+    type: "string",
+    description: "Optional. Name of the configured environment to run against (see list_environments). Defaults to the default environment."
+};
+
+interface PermissionPlan {
+    entityId: string;
+    groupLabel: string;
+    before: any;
+    after: any;
+    unmatched: string[];
+    payload: any;
+}
+
+async function planPermissionUpdate(args: any): Promise<PermissionPlan> {
+    const { builderClient } = getClients(args?.environment);
+    const schema = z.object({
+        entityId: z.string(),
+        group: z.string(),
+        updates: z.record(z.any()),
+    });
+    const input = schema.parse(args || {});
+
+    // Fetch live permissions (not cached ones) to map the partial payload onto the internal IDs
+    const permissionsArray = await fetchEntityPermissions(builderClient, input.entityId, { fresh: true });
+    const targetGroup = findGroupPermissions(permissionsArray, input.group);
+    if (!targetGroup) {
+        throw new Error(`Group '${input.group}' not found in entity permissions.`);
+    }
+
+    const { groupUpdate, unmatched } = buildGroupUpdate(targetGroup, input.updates);
+    return {
+        entityId: input.entityId,
+        groupLabel: targetGroup.label || input.group,
+        before: targetGroup,
+        after: applyGroupUpdate(targetGroup, groupUpdate),
+        unmatched,
+        // The specific payload structure the Slingr API wants for PUT partial updates
+        payload: { permissions: [groupUpdate] },
+    };
+}
+
+async function planPermissionCopy(args: any): Promise<PermissionPlan> {
+    const { builderClient } = getClients(args?.environment);
+    const schema = z.object({
+        entityId: z.string(),
+        sourceGroup: z.string(),
+        targetGroup: z.string()
+    });
+    const input = schema.parse(args || {});
+
+    if (input.sourceGroup === input.targetGroup) {
+        throw new Error("sourceGroup and targetGroup must be different.");
+    }
+
+    const permissionsArray = await fetchEntityPermissions(builderClient, input.entityId, { fresh: true });
+    const source = findGroupPermissions(permissionsArray, input.sourceGroup);
+    const target = findGroupPermissions(permissionsArray, input.targetGroup);
+
+    if (!source) throw new Error(`Source group '${input.sourceGroup}' not found.`);
+    if (!target) throw new Error(`Target group '${input.targetGroup}' not found.`);
+
+    const { copied, unmatched } = copyGroupPermissions(source, target);
+    return {
+        entityId: input.entityId,
+        groupLabel: target.label || input.targetGroup,
+        before: target,
+        after: copied,
+        unmatched,
+        payload: { permissions: [copied] },
+    };
+}
+
+// The spec comes either inline or from a YAML/JSON file in the repository
+function resolveSchemaSpec(args: any): SchemaSpec {
+    if (args?.spec) return schemaSpecSchema.parse(args.spec);
+    if (args?.specFile) return loadSchemaSpec(path.resolve(args.specFile));
+    throw new Error("Provide either 'specFile' or an inline 'spec'.");
+}
+
+const schemaSpecProperties = {
+    specFile: { type: "string", description: "Path of a YAML or JSON spec file: { entities: [{ name, label, fields: [{ name, label, type, multiplicity, required, options, entity }] }] }." },
+    spec: { type: "object", description: "Optional. The spec inline, instead of specFile." },
+};
+
+// Field settings update_field can change; the type and relationship target stay fixed
+const fieldUpdateSchema = z.object({
+    entityId: z.string(),
+    field: z.string(),
+    label: z.string().optional(),
+    required: z.boolean().optional(),
+    multiplicity: z.enum(["ONE", "MANY"]).optional(),
+    defaultValue: z.any().optional(),
+    unique: z.boolean().optional(),
+    indexed: z.boolean().optional(),
+    options: z.array(choiceOptionSchema).optional(),
+    rules: z.record(z.any()).optional(),
+    dryRun: z.boolean().default(false),
+});
+
+async function planFieldUpdate(args: any) {
+    const { builderClient } = getClients(args?.environment);
+    const { entityId, field: fieldRef, dryRun, rules, ...updates } = fieldUpdateSchema.parse(args || {});
+    const entity = await resolveEntity(builderClient, entityId);
+    // The live settings are merged into the PUT, so they must not come from the cache
+    const metadata = await fetchEntityMetadata(builderClient, entity.id, { fresh: true });
+    const live = resolveField(metadata, fieldRef);
+
+    const before = fieldDefinitionFromMetadata(live);
+    const changed = Object.fromEntries(Object.entries(updates).filter(([, value]) => value !== undefined));
+    // `required` is only sent when passed, so a conditional required rule survives other changes
+    const after: FieldDefinition = { ...before, ...changed, required: updates.required, rules: rules ? { ...before.rules, ...rules } : before.rules };
+
+    // Only the settings being changed are checked: live typeRules, defaults and even the type
+    // itself may be something this server doesn't model, and those pass through untouched
+    const errors = validateFieldDefinition({ ...after, rules, defaultValue: changed.defaultValue }, { allowUnknownType: true });
+    const liveRequired = requiredRule(live);
+    const diff = (Object.keys(after) as (keyof FieldDefinition)[])
+        .filter(key => key !== 'required' && JSON.stringify(before[key]) !== JSON.stringify(after[key]))
+        .map(key => `${key}: ${JSON.stringify(before[key])} → ${JSON.stringify(after[key])}`);
+    if (updates.required !== undefined && updates.required !== liveRequired) {
+        diff.push(`required: ${JSON.stringify(liveRequired)} → ${updates.required}`);
+    } else if (updates.required === undefined && typeof liveRequired === 'string' && diff.length > 0) {
+        diff.push(`required: ${liveRequired} rule (kept as is)`);
+    }
+    return { entity, live, after, errors, diff, dryRun };
 }
 
 export const tools: Record<string, ToolDefinition> = {
     check_connection: {
         name: "check_connection",
         description: "Verifies that the connection to the Slingr API is correct.",
-        inputSchema: { type: "object", properties: {} },
-        execute: async () => {
+        inputSchema: { type: "object", properties: { environment: environmentProperty } },
+        execute: async (args) => {
+            const { builderClient } = getClients(args?.environment);
             const response = await builderClient.get("/entities?fields=name&limit=1");
             return {
                 content: [{ type: "text", text: `Connection OK (Status: ${response.status}).` }],
             };
         }
     },
+    list_environments: {
+        name: "list_environments",
+        description: "Lists the configured Slingr environments (apps and stages) that tools can target through their 'environment' argument.",
+        inputSchema: { type: "object", properties: {} },
+        execute: async () => {
+            return {
+                content: [{ type: "text", text: JSON.stringify(listEnvironments(), null, 2) }],
+            };
+        }
+    },
     list_entities: {
         name: "list_entities",
         description: "Lists all existing entities in the Slingr application.",
-        inputSchema: { type: "object", properties: {} },
-        execute: async () => {
-            const response = await builderClient.get("/folders?_fields=entity,folderPath&_size=100&type=ENTITY");
-            const rawItems = response.data.items || [];
-            const simplifiedList = rawItems.map((e: any) => ({
-                id: e.entity.id,
-                label: e.entity.label,
-                fullPath: e.folderPath
+        inputSchema: { type: "object", properties: { environment: environmentProperty } },
+        execute: async (args) => {
+            const { builderClient } = getClients(args?.environment);
+            const entities = await fetchEntities(builderClient);
+            const simplifiedList = entities.map(e => ({
+                id: e.id,
+                label: e.label,
+                fullPath: e.fullPath
             }));
             return {
                 content: [{ type: "text", text: JSON.stringify(simplifiedList, null, 2) }],
@@ -42,200 +273,394 @@ export const tools: Record<string, ToolDefinition> = {
     list_groups: {
         name: "list_groups",
         description: "Lists all available groups (roles) in the Slingr application.",
-        inputSchema: { type: "object", properties: {} },
-        execute: async () => {
-            const response = await builderClient.get("/metadata?_fields=name,label&_sortField=label&_sortType=ASC&_type=group&_size=100");
-            const rawItems = response.data.items || [];
-            const simplifiedList = rawItems.map((g: any) => ({
-                id: g.id,
-                name: g.name,
-                label: g.label
-            }));
+        inputSchema: { type: "object", properties: { environment: environmentProperty } },
+        execute: async (args) => {
+            const { builderClient } = getClients(args?.environment);
+            const groups = await fetchGroups(builderClient);
             return {
-                content: [{ type: "text", text: JSON.stringify(simplifiedList, null, 2) }],
+                content: [{ type: "text", text: JSON.stringify(groups, null, 2) }],
+            };
+        }
+    },
+    generate_er_diagram: {
+        name: "generate_er_diagram",
+        description: "Draws an entity relationship diagram from the RELATIONSHIP fields of the app, as Mermaid or Graphviz DOT text. Covers the whole app, or the entities of a folder path / list plus everything within 'depth' relationship hops. Can be written to a file instead of returned.",
+        inputSchema: {
+            type: "object",
+            properties: {
+                environment: environmentProperty,
+                format: { type: "string", enum: ["mermaid", "dot"], description: "Diagram format.", default: "mermaid" },
+                entityPath: { type: "string", description: "Optional. Start from the entities whose folder path starts with this prefix." },
+                entities: { type: "array", items: { type: "string" }, description: "Optional. Start from these entities (IDs, names or labels)." },
+                depth: { type: "number", description: "Relationship hops to follow from the starting entities, in both directions.", default: 1 },
+                includeFields: { type: "boolean", description: "List every field inside the entity boxes.", default: false },
+                outputFile: { type: "string", description: "Optional. Local file path to write the diagram to. When set, only a summary is returned." },
+            },
+        },
+        execute: async (args) => {
+            const { builderClient } = getClients(args?.environment);
+            const schema = z.object({
+                format: z.enum(["mermaid", "dot"]).default("mermaid"),
+                entityPath: z.string().optional(),
+                entities: z.array(z.string()).optional(),
+                depth: z.number().int().min(0).default(1),
+                includeFields: z.boolean().default(false),
+                outputFile: z.string().optional(),
+            });
+            const input = schema.parse(args || {});
+
+            const graph = await buildEntityGraph(builderClient, input);
+            const rendered = renderEntityGraph(graph, input.format, input.includeFields);
+
+            if (input.outputFile) {
+                const outputPath = path.resolve(input.outputFile);
+                fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+                fs.writeFileSync(outputPath, rendered, 'utf-8');
+                return {
+                    content: [{
+                        type: "text",
+                        text: `ER diagram (${graph.nodes.length} entities, ${graph.edges.length} relationships) written to ${outputPath}.`
+                    }],
+                };
+            }
+
+            return {
+                content: [{ type: "text", text: rendered }],
+            };
+        }
+    },
+    diff_environments: {
+        name: "diff_environments",
+        description: "Compares the metadata of two configured environments (e.g. dev and prod, or two apps): entities missing on either side, fields whose type, rules, options or other settings differ, actions, and per-group permission mismatches. Entities, fields and groups are matched by name, so differing IDs are ignored. Returns Markdown or JSON, or writes it to a file.",
+        inputSchema: {
+            type: "object",
+            properties: {
+                source: { type: "string", description: "Name of the environment to compare from (see list_environments)." },
+                target: { type: "string", description: "Name of the environment to compare against." },
+                entityPath: { type: "string", description: "Optional. Only compare entities whose folder path starts with this prefix." },
+                entities: { type: "array", items: { type: "string" }, description: "Optional. Only compare these entities (names or labels)." },
+                includePermissions: { type: "boolean", description: "Also compare the group permissions of every entity.", default: true },
+                format: { type: "string", enum: ["markdown", "json"], description: "Output format.", default: "markdown" },
+                outputFile: { type: "string", description: "Optional. Local file path to write the diff to. When set, only a summary is returned." },
+            },
+            required: ["source", "target"],
+        },
+        execute: async (args) => {
+            const schema = z.object({
+                source: z.string(),
+                target: z.string(),
+                entityPath: z.string().optional(),
+                entities: z.array(z.string()).optional(),
+                includePermissions: z.boolean().default(true),
+                format: z.enum(["markdown", "json"]).default("markdown"),
+                outputFile: z.string().optional(),
+            });
+            const input = schema.parse(args || {});
+            const source = getClients(input.source);
+            const target = getClients(input.target);
+            if (source.environment === target.environment) {
+                throw new Error("Source and target must be different environments.");
+            }
+
+            const diff = await diffEnvironmentMetadata(source, target, input);
+            const rendered = input.format === "json" ? JSON.stringify(diff, null, 2) : renderMetadataDiff(diff);
+
+            if (input.outputFile) {
+                const outputPath = path.resolve(input.outputFile);
+                fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+                fs.writeFileSync(outputPath, rendered, 'utf-8');
+                return {
+                    content: [{
+                        type: "text",
+                        text: `Metadata diff ${source.environment} → ${target.environment} (${diff.entitiesOnlyInSource.length + diff.entitiesOnlyInTarget.length} entities on one side only, ${diff.entities.length} with differences) written to ${outputPath}.`
+                    }],
+                };
+            }
+
+            return {
+                content: [{ type: "text", text: rendered }],
+            };
+        }
+    },
+    refresh_metadata_cache: {
+        name: "refresh_metadata_cache",
+        description: "Clears the cached builder metadata (entity list, groups, entity metadata and permissions) of an environment, or of a single entity, so the next calls read it fresh from Slingr. Use it after changing the app outside this server. Optionally warms the cache again right away.",
+        inputSchema: {
+            type: "object",
+            properties: {
+                environment: environmentProperty,
+                entity: { type: "string", description: "Optional. ID or name of the only entity to refresh." },
+                warm: { type: "boolean", description: "If true, reloads the entity list, groups and all entity metadata after clearing.", default: false },
+            },
+        },
+        execute: async (args) => {
+            const { builderClient, environment } = getClients(args?.environment);
+            const schema = z.object({
+                entity: z.string().optional(),
+                warm: z.boolean().default(false),
+            });
+            const input = schema.parse(args || {});
+
+            if (!isMetadataCacheEnabled()) {
+                return {
+                    content: [{ type: "text", text: "The metadata cache is disabled (SLINGR_METADATA_CACHE_TTL_SECONDS=0); every call already reads from Slingr." }],
+                };
+            }
+
+            const dropped = invalidateMetadataCache(environment, input.entity);
+            const lines = [`Dropped ${dropped} cached entries for ${input.entity ? `entity '${input.entity}' in ` : ''}environment '${environment}'.`];
+            if (input.warm) {
+                const warmed = await warmUpMetadata(builderClient);
+                lines.push(`Warmed: ${warmed.entities} entities, ${warmed.groups} groups.`);
+            }
+            lines.push(`Cached now: ${JSON.stringify(metadataCacheStats(environment))}`);
+            return {
+                content: [{ type: "text", text: lines.join('\n') }],
+            };
+        }
+    },
+    generate_entity_types: {
+        name: "generate_entity_types",
+        description: "Generates TypeScript interfaces and/or JSON Schema documents from entity metadata, for one or more entities or the whole app, and writes them to a local directory. Field types, multiplicity, required rules, CHOICE values and RELATIONSHIP targets are mapped to the shapes the runtime API returns. Returns the list of written files.",
+        inputSchema: {
+            type: "object",
+            properties: {
+                environment: environmentProperty,
+                entities: { type: "array", items: { type: "string" }, description: "Optional. IDs or names of the entities. All entities when omitted." },
+                outputDir: { type: "string", description: "Directory to write the files to.", default: "generated" },
+                formats: { type: "array", items: { type: "string", enum: ["typescript", "jsonschema"] }, description: "What to generate.", default: ["typescript", "jsonschema"] },
+            },
+        },
+        execute: async (args) => {
+            const { builderClient } = getClients(args?.environment);
+            const schema = z.object({
+                entities: z.array(z.string()).optional(),
+                outputDir: z.string().default("generated"),
+                formats: z.array(z.enum(["typescript", "jsonschema"])).min(1).default(["typescript", "jsonschema"]),
+            });
+            const input = schema.parse(args || {});
+
+            const summary = await generateEntityTypes(builderClient, { ...input, outputDir: path.resolve(input.outputDir) });
+            return {
+                content: [{
+                    type: "text",
+                    text: `Generated ${input.formats.join(' and ')} for ${summary.entities.length} entities in ${path.resolve(input.outputDir)}:\n${summary.files.map(f => `- ${path.basename(f)}`).join('\n')}`
+                }],
             };
         }
     },
     create_entity: {
         name: "create_entity",
         description: "Creates a new entity (table) in the Slingr application.",
+        access: "write",
         inputSchema: {
             type: "object",
             properties: {
+                environment: environmentProperty,
                 name: { type: "string", description: "Internal name (camelCase)." },
                 label: { type: "string", description: "Human-readable label." },
             },
             required: ["name", "label"],
         },
         execute: async (args) => {
+            const { builderClient } = getClients(args?.environment);
             const schema = z.object({
                 name: z.string(),
                 label: z.string(),
             });
             const input = schema.parse(args || {});
-            const payload = {
-                name: input.name,
-                label: { defaultValue: input.label, translation: { en: input.label } },
-                type: "DATA",
-                fieldsNotRequired: true
-            };
-            const response = await builderClient.post("/entities", payload);
+            const response = await builderClient.post("/entities", buildEntityPayload(input.name, input.label));
             return {
                 content: [{ type: "text", text: `Entity created! ID: ${response.data.id}` }],
             };
         }
     },
-    update_entity_permissions: {
-        name: "update_entity_permissions",
-        description: "Updates the permissions for a specific entity and group (role) by applying partial updates. This fetches current permissions behind the scenes to map IDs, so you only need to submit the fields that change.",
+    plan_schema: {
+        name: "plan_schema",
+        description: "Compares a declarative schema spec (entities, fields, CHOICE options and relationships, from a YAML/JSON file or inline) with the live app metadata and reports what apply_schema would create or change, what is already up to date, and conflicts it won't touch (type or relationship target changes). Nothing is ever deleted. Changes nothing.",
         inputSchema: {
             type: "object",
             properties: {
-                entityId: { type: "string", description: "The ID of the entity to update permissions for." },
-                group: { type: "string", description: "The ID, name, or label of the group (role) to apply updates to." },
-                updates: {
-                    type: "object",
-                    description: `Partial RolePermission object containing the fields to change. Example: { canEdit: "ALWAYS", fields: [{ name: "status", permission: "READ_ONLY" }] }`
-                },
+                environment: environmentProperty,
+                ...schemaSpecProperties,
+            },
+        },
+        execute: async (args) => {
+            const { builderClient } = getClients(args?.environment);
+            const plan = await planSchema(builderClient, resolveSchemaSpec(args));
+            return {
+                content: [{ type: "text", text: renderSchemaPlan(plan) }],
+            };
+        }
+    },
+    apply_schema: {
+        name: "apply_schema",
+        description: "Applies a declarative schema spec: runs the plan_schema plan in dependency order (entities first, then fields, then relationship fields that reference them). Stops at the first failure and reports what was applied. Conflicts are skipped.",
+        access: "destructive",
+        inputSchema: {
+            type: "object",
+            properties: {
+                environment: environmentProperty,
+                ...schemaSpecProperties,
             },
-            required: ["entityId", "group", "updates"],
         },
+        preview: async (args) => {
+            const { builderClient } = getClients(args?.environment);
+            return renderSchemaPlan(await planSchema(builderClient, resolveSchemaSpec(args)));
+        },
+        // Relationship fields expose their related entity too, so those are checked with the spec's own
+        targetEntities: (args) => resolveSchemaSpec(args).entities.flatMap(e => [e.name, ...e.fields.map(f => f.entity).filter((t): t is string => !!t)]),
         execute: async (args) => {
+            const { builderClient } = getClients(args?.environment);
+            const plan = await planSchema(builderClient, resolveSchemaSpec(args));
+            if (!plan.changes.some(c => c.action !== 'conflict')) {
+                return {
+                    content: [{ type: "text", text: `Nothing to apply.\n\n${renderSchemaPlan(plan)}` }],
+                };
+            }
+
+            const result = await applySchemaPlan(builderClient, plan);
+            const lines = result.applied.map(step => `✅ ${step}`);
+            if (result.failed) {
+                lines.push(`❌ ${result.failed.step}: ${result.failed.error}`, '', 'Stopped at the first failure; run plan_schema to see what is left.');
+            }
+            const conflicts = plan.changes.filter(c => c.action === 'conflict').length;
+            if (conflicts > 0) {
+                lines.push('', `${conflicts} conflicts were skipped (see plan_schema).`);
+            }
+            return {
+                content: [{ type: "text", text: lines.join('\n') }],
+                isError: Boolean(result.failed),
+            };
+        }
+    },
+    update_entity: {
+        name: "update_entity",
+        description: "Updates an entity: its label and/or the order of its fields. The entity can be given by ID or name.",
+        access: "write",
+        inputSchema: {
+            type: "object",
+            properties: {
+                environment: environmentProperty,
+                entityId: { type: "string", description: "The ID or name of the entity." },
+                label: { type: "string", description: "Optional. New human-readable label." },
+                fieldOrder: { type: "array", items: { type: "string" }, description: "Optional. Field names in the desired order. Fields not listed keep their relative order after these." },
+            },
+            required: ["entityId"],
+        },
+        execute: async (args) => {
+            const { builderClient } = getClients(args?.environment);
             const schema = z.object({
                 entityId: z.string(),
-                group: z.string(),
-                updates: z.record(z.any()),
+                label: z.string().optional(),
+                fieldOrder: z.array(z.string()).optional(),
             });
             const input = schema.parse(args || {});
-
-            // Fetch current permissions to ensure we have the internal IDs to map the partial payload
-            const getResponse = await builderClient.get(`/entities/${input.entityId}/permissions?_size=100`);
-            let data = getResponse.data;
-            let permissionsArray = data.items || data.permissions || (Array.isArray(data) ? data : []);
-
-            if (!Array.isArray(permissionsArray) || permissionsArray.length === 0) {
-                throw new Error("Could not parse permissions array from Slingr API response or permissions array is empty.");
+            if (!input.label && !input.fieldOrder) {
+                throw new Error("Nothing to update: pass a label and/or fieldOrder.");
             }
 
-            const groupIndex = permissionsArray.findIndex((p: any) =>
-                p.name === input.group || p.id === input.group || p.label === input.group ||
-                p.group?.name === input.group || p.group?.id === input.group || p.group?.label === input.group
-            );
-
-            if (groupIndex === -1) {
-                throw new Error(`Group '${input.group}' not found in entity permissions.`);
+            const entity = await resolveEntity(builderClient, input.entityId);
+            const payload: any = {};
+            if (input.label) {
+                payload.label = { defaultValue: input.label, translation: { en: input.label } };
+            }
+            if (input.fieldOrder) {
+                // Every live field goes into the order, including ones added since the cache was filled
+                const metadata = await fetchEntityMetadata(builderClient, entity.id, { fresh: true });
+                const listed = input.fieldOrder.map(ref => resolveField(metadata, ref));
+                const rest = (metadata.fields || []).filter((f: any) => !listed.includes(f));
+                payload.fieldsOrder = [...listed, ...rest].map((f: any) => f.id);
             }
 
-            const targetGroup = permissionsArray[groupIndex];
-
-            // Build ONLY the partial update payload requested
-            const groupUpdate: any = {
-                id: targetGroup.id,
-                name: targetGroup.name,
-                label: targetGroup.label
+            await builderClient.put(`/entities/${entity.id}`, payload);
+            const changes = [input.label ? `label → "${input.label}"` : undefined, input.fieldOrder ? 'field order' : undefined].filter(Boolean);
+            return {
+                content: [{ type: "text", text: `Entity '${entity.name}' updated (${changes.join(', ')}).` }],
             };
-
-            // 1. Process top-level permissions properly
-            const topLevelPerms = ['canCreate', 'canAccess', 'canEdit', 'canDelete', 'canSeeAuditLogs'];
-            topLevelPerms.forEach(perm => {
-                if (input.updates[perm] !== undefined) {
-                    let newVal = input.updates[perm];
-                    const existingPermId = targetGroup[perm]?.id;
-                    if (typeof newVal === 'string') {
-                        groupUpdate[perm] = { type: newVal };
-                    } else if (typeof newVal === 'object' && newVal !== null) {
-                        groupUpdate[perm] = { ...newVal };
-                    }
-
-                    if (existingPermId && groupUpdate[perm] && !groupUpdate[perm].id) {
-                        groupUpdate[perm].id = existingPermId;
-                    }
-                }
+        }
+    },
+    delete_entity: {
+        name: "delete_entity",
+        description: "Deletes an entity and all its records. The preview shows how many records would be lost and which relationship fields in other entities point at it. Refuses to delete an entity that is still referenced unless 'force' is set.",
+        access: "destructive",
+        inputSchema: {
+            type: "object",
+            properties: {
+                environment: environmentProperty,
+                entityId: { type: "string", description: "The ID or name of the entity." },
+                force: { type: "boolean", description: "Delete even if relationship fields in other entities point at it.", default: false },
+            },
+            required: ["entityId"],
+        },
+        preview: async (args) => {
+            const { builderClient, runtimeClient } = getClients(args?.environment);
+            const entity = await resolveEntity(builderClient, args.entityId);
+            return renderEntityImpact(await assessEntityImpact(builderClient, runtimeClient, entity));
+        },
+        execute: async (args) => {
+            const { builderClient, runtimeClient } = getClients(args?.environment);
+            const schema = z.object({
+                entityId: z.string(),
+                force: z.boolean().default(false),
             });
+            const input = schema.parse(args || {});
 
-            if (input.updates.canImport !== undefined) groupUpdate.canImport = input.updates.canImport;
-            if (input.updates.canExport !== undefined) groupUpdate.canExport = input.updates.canExport;
-
-            // 2. Process Fields safely (match by name or ID and map to strict Slingr structure)
-            if (Array.isArray(input.updates.fields)) {
-                groupUpdate.fields = [];
-                input.updates.fields.forEach((updatedField: any) => {
-                    const existingField = targetGroup.fields?.find((f: any) =>
-                        f.name === updatedField.name || f.id === updatedField.id
-                    );
-                    if (existingField) {
-                        groupUpdate.fields.push({
-                            id: existingField.id,
-                            name: existingField.name,
-                            label: existingField.label,
-                            permission: updatedField.permission
-                        });
-                    }
-                });
-            }
-
-            // 3. Process Actions safely
-            if (Array.isArray(input.updates.actions)) {
-                groupUpdate.actions = [];
-                input.updates.actions.forEach((updatedAction: any) => {
-                    const existingAction = targetGroup.actions?.find((a: any) =>
-                        a.name === updatedAction.name || a.id === updatedAction.id
-                    );
-                    if (existingAction) {
-                        let actionPerm = updatedAction.permission;
-                        if (typeof actionPerm === 'string') {
-                            actionPerm = { type: actionPerm };
-                        } else if (typeof actionPerm === 'object' && actionPerm !== null) {
-                            actionPerm = { ...actionPerm };
-                        }
-
-                        const existingPermId = existingAction.permission?.id;
-                        if (existingPermId && actionPerm && !actionPerm.id) {
-                            actionPerm.id = existingPermId;
-                        }
-
-                        const actionUpdate: any = {
-                            id: existingAction.id,
-                            name: existingAction.name,
-                            label: existingAction.label
-                        };
-
-                        if (actionPerm) {
-                            actionUpdate.permission = actionPerm;
-                        }
+            const entity = await resolveEntity(builderClient, input.entityId);
+            const impact = await assessEntityImpact(builderClient, runtimeClient, entity);
+            if (impact.incoming.length > 0 && !input.force) {
+                return {
+                    content: [{ type: "text", text: `Not deleted: other entities still reference '${entity.name}'. Remove those fields first or pass force: true.\n\n${renderEntityImpact(impact)}` }],
+                    isError: true,
+                };
+            }
 
-                        // Process Action Parameters if they exist
-                        if (Array.isArray(updatedAction.parameters)) {
-                            actionUpdate.parameters = [];
-                            updatedAction.parameters.forEach((updatedParam: any) => {
-                                const existingParam = existingAction.parameters?.find((p: any) =>
-                                    p.name === updatedParam.name || p.id === updatedParam.id
-                                );
-                                if (existingParam) {
-                                    actionUpdate.parameters.push({
-                                        id: existingParam.id,
-                                        name: existingParam.name,
-                                        label: existingParam.label,
-                                        permission: updatedParam.permission
-                                    });
-                                }
-                            });
-                        }
+            await builderClient.delete(`/entities/${entity.id}`);
+            return {
+                content: [{ type: "text", text: `Entity '${entity.name}' deleted.\n\n${renderEntityImpact(impact)}` }],
+            };
+        }
+    },
+    update_entity_permissions: {
+        name: "update_entity_permissions",
+        description: "Updates the permissions for a specific entity and group (role) by applying partial updates. This fetches current permissions behind the scenes to map IDs, so you only need to submit the fields that change. Use dryRun to review a before/after diff without applying it.",
+        access: "destructive",
+        supportsDryRun: true,
+        inputSchema: {
+            type: "object",
+            properties: {
+                environment: environmentProperty,
+                entityId: { type: "string", description: "The ID of the entity to update permissions for." },
+                group: { type: "string", description: "The ID, name, or label of the group (role) to apply updates to." },
+                updates: {
+                    type: "object",
+                    description: `Partial RolePermission object containing the fields to change. Example: { canEdit: "ALWAYS", fields: [{ name: "status", permission: "READ_ONLY" }] }`
+                },
+                dryRun: { type: "boolean", description: "If true, only returns the before/after diff of the group's permissions without applying it.", default: false },
+            },
+            required: ["entityId", "group", "updates"],
+        },
+        preview: async (args) => {
+            const plan = await planPermissionUpdate(args);
+            return renderPermissionDiff(plan.groupLabel, plan.before, plan.after, plan.unmatched);
+        },
+        execute: async (args) => {
+            const { builderClient } = getClients(args?.environment);
+            const plan = await planPermissionUpdate(args);
+            const diff = renderPermissionDiff(plan.groupLabel, plan.before, plan.after, plan.unmatched);
 
-                        groupUpdate.actions.push(actionUpdate);
-                    }
-                });
+            if (args.dryRun) {
+                return {
+                    content: [{ type: "text", text: `Dry run, nothing was changed.\n\n${diff}` }],
+                };
             }
 
-            // The specific payload structure the Slingr API wants for PUT partial updates
-            const payload = { permissions: [groupUpdate] };
-
-            await builderClient.put(`/entities/${input.entityId}/permissions`, payload);
+            await builderClient.put(`/entities/${plan.entityId}/permissions`, plan.payload);
 
             return {
                 content: [{
                     type: "text",
-                    text: `Successfully updated permissions for group '${input.group}'.\n\nPayload sent:\n${JSON.stringify(payload, null, 2)}`
+                    text: `Successfully updated permissions for group '${plan.groupLabel}'.\n\n${diff}\n\nPayload sent:\n${JSON.stringify(plan.payload, null, 2)}`
                 }],
             };
         }
@@ -246,47 +671,25 @@ export const tools: Record<string, ToolDefinition> = {
         inputSchema: {
             type: "object",
             properties: {
+                environment: environmentProperty,
                 entityId: { type: "string", description: "The ID of the entity." },
                 group: { type: "string", description: "Optional. The ID, name, or label of the group (role) to filter by. If omitted, returns all." }
             },
             required: ["entityId"],
         },
         execute: async (args) => {
+            const { builderClient } = getClients(args?.environment);
             const schema = z.object({
                 entityId: z.string(),
                 group: z.string().optional(),
             });
             const input = schema.parse(args || {});
-            const response = await builderClient.get(`/entities/${input.entityId}/permissions?_size=100`);
-
-            let data = response.data;
-            let items = data.items || data.permissions || (Array.isArray(data) ? data : []);
+            let items = await fetchEntityPermissions(builderClient, input.entityId);
 
             if (input.group) {
-                items = items.filter((p: any) =>
-                    p.name === input.group || p.id === input.group || p.label === input.group ||
-                    p.group?.name === input.group || p.group?.id === input.group || p.group?.label === input.group
-                );
+                items = items.filter((p: any) => matchesGroup(p, input.group!));
             }
 
-            // Función auxiliar para no perder scripts o filtros en permisos tipo CONDITION
-            const formatPermission = (permObj: any) => {
-                if (!permObj) return undefined;
-                if (typeof permObj === 'string') return permObj;
-
-                // Extraemos claves ignorando 'id' y 'type'
-                const keys = Object.keys(permObj).filter(k => k !== 'id' && k !== 'type');
-
-                // Si no hay claves extra (como script), podemos simplificarlo a un string
-                if (keys.length === 0 && permObj.type) {
-                    return permObj.type;
-                }
-
-                // Si hay un script o un filtro, devolvemos el objeto sin el id
-                const { id, ...rest } = permObj;
-                return rest;
-            };
-
             const cleanedItems = items.map((p: any) => {
                 const cleaned: any = {
                     id: p.id,
@@ -329,122 +732,341 @@ export const tools: Record<string, ToolDefinition> = {
                 return cleaned;
             });
 
-            let resultData;
-            if (input.group) {
-                resultData = cleanedItems.length > 0 ? cleanedItems[0] : { error: `Group '${input.group}' not found.` };
-            } else {
-                resultData = { items: cleanedItems };
-            }
-
+            let resultData;
+            if (input.group) {
+                resultData = cleanedItems.length > 0 ? cleanedItems[0] : { error: `Group '${input.group}' not found.` };
+            } else {
+                resultData = { items: cleanedItems };
+            }
+
+            return {
+                content: [{ type: "text", text: JSON.stringify(resultData, null, 2) }],
+            };
+        }
+    },
+    copy_entity_permissions: {
+        name: "copy_entity_permissions",
+        description: "Copies all permissions from a source group to a target group within the same entity. Use dryRun to review a before/after diff of the target group without applying it.",
+        access: "destructive",
+        supportsDryRun: true,
+        inputSchema: {
+            type: "object",
+            properties: {
+                environment: environmentProperty,
+                entityId: { type: "string", description: "The ID of the entity." },
+                sourceGroup: { type: "string", description: "The ID, name, or label of the source group." },
+                targetGroup: { type: "string", description: "The ID, name, or label of the target group." },
+                dryRun: { type: "boolean", description: "If true, only returns the before/after diff of the target group without applying it.", default: false },
+            },
+            required: ["entityId", "sourceGroup", "targetGroup"],
+        },
+        preview: async (args) => {
+            const plan = await planPermissionCopy(args);
+            return renderPermissionDiff(plan.groupLabel, plan.before, plan.after, plan.unmatched);
+        },
+        execute: async (args) => {
+            const { builderClient } = getClients(args?.environment);
+            const plan = await planPermissionCopy(args);
+            const diff = renderPermissionDiff(plan.groupLabel, plan.before, plan.after, plan.unmatched);
+
+            if (args.dryRun) {
+                return {
+                    content: [{ type: "text", text: `Dry run, nothing was changed.\n\n${diff}` }],
+                };
+            }
+
+            await builderClient.put(`/entities/${plan.entityId}/permissions`, plan.payload);
+
+            return {
+                content: [{
+                    type: "text",
+                    text: `Successfully copied permissions from '${args.sourceGroup}' to '${args.targetGroup}'.\n\n${diff}`
+                }],
+            };
+        }
+    },
+    propagate_group_permissions: {
+        name: "propagate_group_permissions",
+        description: "Copies (clones) all permissions of a source group onto a target group across many entities: all of them, a folder path or an explicit list. Keeps going past failures, reports per-entity results and can resume a run that had errors. Use dryRun to review the per-entity diffs first.",
+        access: "destructive",
+        supportsDryRun: true,
+        inputSchema: {
+            type: "object",
+            properties: {
+                environment: environmentProperty,
+                sourceGroup: { type: "string", description: "The ID, name, or label of the source group." },
+                targetGroup: { type: "string", description: "The ID, name, or label of the target group." },
+                entityPath: { type: "string", description: "Optional. Only entities whose folder path starts with this prefix." },
+                entities: { type: "array", items: { type: "string" }, description: "Optional. IDs, names or labels of the entities. If neither this nor entityPath is set, all entities are used." },
+                dryRun: { type: "boolean", description: "If true, only returns the per-entity diffs without applying them.", default: false },
+                resumeRunId: { type: "string", description: "Optional. ID of a previous run to resume; retries its failed and pending entities. Other arguments are taken from that run." },
+            },
+        },
+        // A resumed run writes to the environment it was started in, whatever the default is
+        targetEnvironment: (args) => args?.resumeRunId ? loadPropagationRun(args.resumeRunId).environment : args?.environment,
+        targetEntities: async (args) => {
+            if (args?.resumeRunId) {
+                return remainingPropagationEntries(loadPropagationRun(args.resumeRunId)).map(e => e.entity.name);
+            }
+            const { builderClient } = getClients(args?.environment);
+            return (await resolvePropagationEntities(builderClient, args || {})).map(e => e.name);
+        },
+        preview: async (args) => {
+            if (args.resumeRunId) {
+                const run = loadPropagationRun(args.resumeRunId);
+                const remaining = remainingPropagationEntries(run);
+                return `Resume run ${run.runId} ('${run.sourceGroup}' → '${run.targetGroup}') in environment '${run.environment}' for ${remaining.length} entities:\n${remaining.map(e => `- ${e.entity.fullPath || e.entity.label}`).join('\n')}`;
+            }
+            const { builderClient } = getClients(args?.environment);
+            const entities = await resolvePropagationEntities(builderClient, args);
+            return `Overwrite the permissions of '${args.targetGroup}' with those of '${args.sourceGroup}' in ${entities.length} entities:\n${entities.map(e => `- ${e.fullPath || e.label}`).join('\n')}`;
+        },
+        execute: async (args) => {
+            const schema = z.object({
+                sourceGroup: z.string().optional(),
+                targetGroup: z.string().optional(),
+                entityPath: z.string().optional(),
+                entities: z.array(z.string()).optional(),
+                dryRun: z.boolean().default(false),
+                resumeRunId: z.string().optional(),
+            });
+            const input = schema.parse(args || {});
+
+            if (input.resumeRunId) {
+                const run = loadPropagationRun(input.resumeRunId);
+                if (args?.environment && getClients(args.environment).environment !== run.environment) {
+                    throw new Error(`Run '${run.runId}' belongs to environment '${run.environment}', not '${args.environment}'.`);
+                }
+                const { builderClient } = getClients(run.environment);
+                if (input.dryRun) {
+                    const preview = await previewPropagation(builderClient, remainingPropagationEntries(run).map(e => e.entity), run.sourceGroup, run.targetGroup);
+                    return {
+                        content: [{ type: "text", text: `Dry run, nothing was changed.\n\n${preview}` }],
+                    };
+                }
+                await executePropagation(builderClient, run);
+                return {
+                    content: [{ type: "text", text: renderPropagationReport(run) }],
+                };
+            }
+
+            if (!input.sourceGroup || !input.targetGroup) {
+                throw new Error("sourceGroup and targetGroup are required unless resumeRunId is given.");
+            }
+            if (input.sourceGroup === input.targetGroup) {
+                throw new Error("sourceGroup and targetGroup must be different.");
+            }
+
+            const { builderClient, environment } = getClients(args?.environment);
+            const entities = await resolvePropagationEntities(builderClient, input);
+
+            if (input.dryRun) {
+                const preview = await previewPropagation(builderClient, entities, input.sourceGroup, input.targetGroup);
+                return {
+                    content: [{ type: "text", text: `Dry run, nothing was changed.\n\n${preview}` }],
+                };
+            }
+
+            const run = createPropagationRun(environment, input.sourceGroup, input.targetGroup, entities);
+            await executePropagation(builderClient, run);
+            return {
+                content: [{ type: "text", text: renderPropagationReport(run) }],
+            };
+        }
+    },
+    export_permission_matrix: {
+        name: "export_permission_matrix",
+        description: "Builds the application-wide permission matrix (entities × groups) for security reviews. Covers top-level permissions and optionally field and action permissions. Rendered as Markdown, CSV or JSON; large matrices can be written to a file instead of returned.",
+        inputSchema: {
+            type: "object",
+            properties: {
+                environment: environmentProperty,
+                format: { type: "string", enum: ["markdown", "csv", "json"], description: "Output format.", default: "markdown" },
+                groups: { type: "array", items: { type: "string" }, description: "Optional. IDs, names or labels of the groups to include. Defaults to all groups." },
+                entityPath: { type: "string", description: "Optional. Only include entities whose folder path starts with this prefix." },
+                entities: { type: "array", items: { type: "string" }, description: "Optional. IDs, names or labels of the entities to include." },
+                includeFields: { type: "boolean", description: "Include per-field permissions.", default: false },
+                includeActions: { type: "boolean", description: "Include per-action permissions and their parameters.", default: false },
+                outputFile: { type: "string", description: "Optional. Local file path to write the matrix to. When set, only a summary is returned." },
+            },
+        },
+        execute: async (args) => {
+            const { builderClient } = getClients(args?.environment);
+            const schema = z.object({
+                format: z.enum(["markdown", "csv", "json"]).default("markdown"),
+                groups: z.array(z.string()).optional(),
+                entityPath: z.string().optional(),
+                entities: z.array(z.string()).optional(),
+                includeFields: z.boolean().default(false),
+                includeActions: z.boolean().default(false),
+                outputFile: z.string().optional(),
+            });
+            const input = schema.parse(args || {});
+
+            const matrix = await buildPermissionMatrix(builderClient, input);
+            const rendered = renderPermissionMatrix(matrix, input.format);
+
+            if (input.outputFile) {
+                const outputPath = path.resolve(input.outputFile);
+                fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+                fs.writeFileSync(outputPath, rendered, 'utf-8');
+                const errorNote = matrix.errors.length > 0 ? ` ${matrix.errors.length} entities could not be read.` : '';
+                return {
+                    content: [{
+                        type: "text",
+                        text: `Permission matrix (${matrix.entities.length} entities × ${matrix.groups.length} groups) written to ${outputPath}.${errorNote}`
+                    }],
+                };
+            }
+
+            return {
+                content: [{ type: "text", text: rendered }],
+            };
+        }
+    },
+    backup_permissions: {
+        name: "backup_permissions",
+        description: "Saves the full permission state of one entity, several entities or the whole app to a versioned local JSON snapshot. Take one before bulk role changes.",
+        inputSchema: {
+            type: "object",
+            properties: {
+                environment: environmentProperty,
+                entities: { type: "array", items: { type: "string" }, description: "Optional. IDs, names or labels of the entities to include. Defaults to all entities." },
+                entityPath: { type: "string", description: "Optional. Only include entities whose folder path starts with this prefix." },
+                groups: { type: "array", items: { type: "string" }, description: "Optional. Only save these groups (IDs, names or labels)." },
+                description: { type: "string", description: "Optional. Note stored in the snapshot, e.g. why it was taken." },
+            },
+        },
+        execute: async (args) => {
+            const { builderClient, environment } = getClients(args?.environment);
+            const schema = z.object({
+                entities: z.array(z.string()).optional(),
+                entityPath: z.string().optional(),
+                groups: z.array(z.string()).optional(),
+                description: z.string().optional(),
+            });
+            const input = schema.parse(args || {});
+
+            const { filePath, snapshot } = await createPermissionSnapshot(builderClient, environment, input, input.description);
             return {
-                content: [{ type: "text", text: JSON.stringify(resultData, null, 2) }],
+                content: [{
+                    type: "text",
+                    text: `Snapshot of ${snapshot.entities.length} entities saved to ${filePath}.`
+                }],
             };
         }
     },
-    copy_entity_permissions: {
-        name: "copy_entity_permissions",
-        description: "Copies all permissions from a source group to a target group within the same entity.",
+    list_permission_snapshots: {
+        name: "list_permission_snapshots",
+        description: "Lists the local permission snapshots created by backup_permissions.",
+        inputSchema: { type: "object", properties: {} },
+        execute: async () => {
+            return {
+                content: [{ type: "text", text: JSON.stringify(listPermissionSnapshots(), null, 2) }],
+            };
+        }
+    },
+    diff_permission_snapshot: {
+        name: "diff_permission_snapshot",
+        description: "Compares a permission snapshot with the current live permissions and lists what changed since it was taken.",
         inputSchema: {
             type: "object",
             properties: {
-                entityId: { type: "string", description: "The ID of the entity." },
-                sourceGroup: { type: "string", description: "The ID, name, or label of the source group." },
-                targetGroup: { type: "string", description: "The ID, name, or label of the target group." }
+                environment: environmentProperty,
+                snapshot: { type: "string", description: "Snapshot file name (see list_permission_snapshots) or path." },
+                entities: { type: "array", items: { type: "string" }, description: "Optional. Limit the comparison to these entities." },
+                groups: { type: "array", items: { type: "string" }, description: "Optional. Limit the comparison to these groups." },
             },
-            required: ["entityId", "sourceGroup", "targetGroup"],
+            required: ["snapshot"],
         },
         execute: async (args) => {
+            const { builderClient } = getClients(args?.environment);
             const schema = z.object({
-                entityId: z.string(),
-                sourceGroup: z.string(),
-                targetGroup: z.string()
+                snapshot: z.string(),
+                entities: z.array(z.string()).optional(),
+                groups: z.array(z.string()).optional(),
             });
             const input = schema.parse(args || {});
 
-            if (input.sourceGroup === input.targetGroup) {
-                throw new Error("sourceGroup and targetGroup must be different.");
-            }
-
-            const getResponse = await builderClient.get(`/entities/${input.entityId}/permissions?_size=100`);
-            let permissionsArray = getResponse.data?.items || getResponse.data?.permissions || (Array.isArray(getResponse.data) ? getResponse.data : []);
-
-            if (!Array.isArray(permissionsArray) || permissionsArray.length === 0) {
-                throw new Error("Could not parse permissions array from Slingr API response.");
-            }
-
-            const source = permissionsArray.find((p: any) =>
-                p.name === input.sourceGroup || p.id === input.sourceGroup || p.label === input.sourceGroup ||
-                p.group?.name === input.sourceGroup || p.group?.id === input.sourceGroup || p.group?.label === input.sourceGroup
-            );
-
-            const target = permissionsArray.find((p: any) =>
-                p.name === input.targetGroup || p.id === input.targetGroup || p.label === input.targetGroup ||
-                p.group?.name === input.targetGroup || p.group?.id === input.targetGroup || p.group?.label === input.targetGroup
-            );
-
-            if (!source) throw new Error(`Source group '${input.sourceGroup}' not found.`);
-            if (!target) throw new Error(`Target group '${input.targetGroup}' not found.`);
-
-            const copyPerm = (sourcePerm: any, targetPermId?: string) => {
-                if (!sourcePerm) return undefined;
-                if (typeof sourcePerm === 'string') {
-                    return targetPermId ? { id: targetPermId, type: sourcePerm } : { type: sourcePerm };
-                }
-                const { id, ...rest } = sourcePerm;
-                return targetPermId ? { id: targetPermId, ...rest } : { ...rest };
+            const snapshot = loadPermissionSnapshot(input.snapshot);
+            const diff = await diffSnapshotWithLive(builderClient, snapshot, input);
+            return {
+                content: [{ type: "text", text: diff }],
             };
-
-            const topLevelPerms = ['canCreate', 'canAccess', 'canEdit', 'canDelete', 'canSeeAuditLogs'];
-            topLevelPerms.forEach(perm => {
-                target[perm] = copyPerm(source[perm], target[perm]?.id);
+        }
+    },
+    restore_permissions: {
+        name: "restore_permissions",
+        description: "Restores permissions from a snapshot taken with backup_permissions, for all of it or only some entities/groups. Saved permissions are mapped onto the current IDs the same way update_entity_permissions does. Use dryRun to review the diff first.",
+        access: "destructive",
+        supportsDryRun: true,
+        inputSchema: {
+            type: "object",
+            properties: {
+                environment: environmentProperty,
+                snapshot: { type: "string", description: "Snapshot file name (see list_permission_snapshots) or path." },
+                entities: { type: "array", items: { type: "string" }, description: "Optional. Only restore these entities (IDs, names or labels)." },
+                groups: { type: "array", items: { type: "string" }, description: "Optional. Only restore these groups (IDs, names or labels)." },
+                remapByName: { type: "boolean", description: "Required to restore a snapshot taken in another environment: its entities are matched to the target ones by name.", default: false },
+                dryRun: { type: "boolean", description: "If true, only returns the diff of what would be restored.", default: false },
+            },
+            required: ["snapshot"],
+        },
+        targetEntities: (args) => snapshotEntitiesInScope(loadPermissionSnapshot(args.snapshot), args),
+        preview: async (args) => {
+            const { builderClient, environment } = getClients(args?.environment);
+            const snapshot = loadPermissionSnapshot(args.snapshot);
+            return renderRestorePlan(await planPermissionRestore(builderClient, environment, snapshot, args, args));
+        },
+        execute: async (args) => {
+            const { builderClient, environment } = getClients(args?.environment);
+            const schema = z.object({
+                snapshot: z.string(),
+                entities: z.array(z.string()).optional(),
+                groups: z.array(z.string()).optional(),
+                remapByName: z.boolean().default(false),
+                dryRun: z.boolean().default(false),
             });
+            const input = schema.parse(args || {});
 
-            if (source.canImport !== undefined) target.canImport = source.canImport;
-            if (source.canExport !== undefined) target.canExport = source.canExport;
+            const snapshot = loadPermissionSnapshot(input.snapshot);
+            const plan = await planPermissionRestore(builderClient, environment, snapshot, input, input);
 
-            if (Array.isArray(target.fields) && Array.isArray(source.fields)) {
-                target.fields.forEach((tField: any) => {
-                    const sField = source.fields.find((s: any) => s.name === tField.name);
-                    if (sField && sField.permission) {
-                        tField.permission = sField.permission;
-                    }
-                });
-            }
-
-            if (Array.isArray(target.actions) && Array.isArray(source.actions)) {
-                target.actions.forEach((tAction: any) => {
-                    const sAction = source.actions.find((s: any) => s.name === tAction.name);
-                    if (sAction) {
-                        tAction.permission = copyPerm(sAction.permission, tAction.permission?.id);
-
-                        if (Array.isArray(tAction.parameters) && Array.isArray(sAction.parameters)) {
-                            tAction.parameters.forEach((tParam: any) => {
-                                const sParam = sAction.parameters.find((s: any) => s.name === tParam.name);
-                                if (sParam && sParam.permission) {
-                                    tParam.permission = sParam.permission;
-                                }
-                            });
-                        }
-                    }
-                });
+            if (input.dryRun) {
+                return {
+                    content: [{ type: "text", text: `Dry run, nothing was changed.\n\n${renderRestorePlan(plan)}` }],
+                };
             }
 
-            const payload = { permissions: [target] };
-            await builderClient.put(`/entities/${input.entityId}/permissions`, payload);
+            const results: string[] = [];
+            for (const entry of plan) {
+                const label = entry.entity.fullPath || entry.entity.label;
+                if (entry.error) {
+                    results.push(`❌ ${label}: ${entry.error}`);
+                } else if (!entry.payload) {
+                    results.push(`⏭️ ${label}: nothing to restore`);
+                } else {
+                    try {
+                        await builderClient.put(`/entities/${entry.entity.id}/permissions`, entry.payload);
+                        results.push(`✅ ${label}: restored ${entry.payload.permissions.length} groups`);
+                    } catch (error: any) {
+                        const message = error.response ? `Slingr Error (${error.response.status}): ${JSON.stringify(error.response.data)}` : error.message;
+                        results.push(`❌ ${label}: ${message}`);
+                    }
+                }
+            }
 
             return {
-                content: [{
-                    type: "text",
-                    text: `Successfully copied permissions from '${input.sourceGroup}' to '${input.targetGroup}'.`
-                }],
+                content: [{ type: "text", text: `Restore from ${input.snapshot} finished.\n\n${results.join('\n')}\n\n${renderRestorePlan(plan)}` }],
             };
         }
     },
     check_pending_changes: {
         name: "check_pending_changes",
         description: "Checks if there are pending changes (metadata or backups) that need to be pushed.",
-        inputSchema: { type: "object", properties: {} },
-        execute: async () => {
+        inputSchema: { type: "object", properties: { environment: environmentProperty } },
+        execute: async (args) => {
+            const { builderClient } = getClients(args?.environment);
             const response = await builderClient.get("/development/hasChangesToPush?skipLog=true");
             return {
                 content: [{ type: "text", text: JSON.stringify(response.data, null, 2) }],
@@ -453,22 +1075,79 @@ export const tools: Record<string, ToolDefinition> = {
     },
     get_pending_changes: {
         name: "get_pending_changes",
-        description: "Fetches the detailed list of pending metadata changes to review before pushing.",
-        inputSchema: { type: "object", properties: {} },
-        execute: async () => {
-            const response = await builderClient.get("/development/detectPushChanges?skipLog=true");
+        description: "Fetches the pending metadata changes to review before pushing, grouped by type (entities, fields, views, actions, permissions) and by added/modified/removed. Set raw to get the unprocessed API response.",
+        inputSchema: {
+            type: "object",
+            properties: {
+                environment: environmentProperty,
+                raw: { type: "boolean", description: "If true, returns the raw JSON from the API instead of the summary.", default: false },
+            },
+        },
+        execute: async (args) => {
+            const { builderClient } = getClients(args?.environment);
+            const raw = await fetchPendingChanges(builderClient);
+            if (args?.raw) {
+                return {
+                    content: [{ type: "text", text: JSON.stringify(raw, null, 2) }],
+                };
+            }
             return {
-                content: [{ type: "text", text: JSON.stringify(response.data, null, 2) }],
+                content: [{ type: "text", text: renderPendingChanges(summarizePendingChanges(raw)) }],
+            };
+        }
+    },
+    push_changes: {
+        name: "push_changes",
+        description: "Pushes the pending metadata changes of the development environment, like the builder's Push button. Requires a commit message describing the change. The confirmation preview shows the structured list of what will be pushed, and every push is recorded in a local changelog.",
+        access: "destructive",
+        // Pushing can't be undone from here, so it is confirmed even with confirm: "none"
+        alwaysConfirm: true,
+        inputSchema: {
+            type: "object",
+            properties: {
+                environment: environmentProperty,
+                message: { type: "string", description: "Commit message describing what is being pushed and why." },
+            },
+            required: ["message"],
+        },
+        preview: async (args) => {
+            const { builderClient } = getClients(args?.environment);
+            return renderPendingChanges(summarizePendingChanges(await fetchPendingChanges(builderClient)));
+        },
+        execute: async (args) => {
+            const { builderClient, environment } = getClients(args?.environment);
+            const schema = z.object({
+                message: z.string().trim().min(10, "Write a commit message of at least 10 characters describing the change."),
+            });
+            const input = schema.parse(args || {});
+
+            const summary = summarizePendingChanges(await fetchPendingChanges(builderClient));
+            const status = await builderClient.get("/development/hasChangesToPush?skipLog=true");
+            if (status.data === false || status.data?.hasChanges === false) {
+                return { content: [{ type: "text", text: "There are no pending changes to push." }] };
+            }
+
+            await builderClient.post("/development/pushChanges", { comment: input.message });
+            const changelog = appendChangelogEntry(environment, input.message, summary);
+            return {
+                content: [{
+                    type: "text",
+                    text: `Changes pushed in '${environment}'. Logged in ${changelog}.\n\n${renderPendingChanges(summary)}`
+                }],
             };
         }
     },
     search_documentation: {
         name: "search_documentation",
-        description: "Searches the official Slingr documentation. Note: This documentation is primarily focused on the UI (App Builder) features and logic. Use it to understand Slingr concepts, but do not assume it contains REST API specifications.",
+        description: "Searches the official Slingr documentation, combining semantic and keyword matching so exact API names (e.g. 'sys.data.find') are found too. Each passage cites its 'slingr://docs/{path}#heading' resource and line range, which can be read for the full section. Note: This documentation is primarily focused on the UI (App Builder) features and logic. REST API specifications are only included when OpenAPI files were ingested; search them with sourceType 'openapi' (one passage per endpoint).",
         inputSchema: {
             type: "object",
             properties: {
                 query: { type: "string", description: "The search query." },
+                limit: { type: "number", description: "Maximum number of passages to return (1-20).", default: 3 },
+                source: { type: "string", description: "Optional. Only search documents whose path starts with this prefix (e.g. 'app-development/')." },
+                sourceType: { type: "string", enum: [...SOURCE_TYPES], description: "Optional. Only search documents of this type: 'markdown', 'html' (exported pages), 'text' or 'openapi' (REST API specs)." },
+                minScore: { type: "number", description: "Optional. Drop passages whose relevance is below this (0-1): the reranker score if one is configured, else the similarity of query and passage embeddings." },
             },
             required: ["query"],
         },
@@ -476,33 +1155,105 @@ export const tools: Record<string, ToolDefinition> = {
             if (!ragSystem.isReady()) {
                 return { content: [{ type: "text", text: "Error: RAG system is still loading. Please wait." }] };
             }
-            if (!args || typeof args.query !== 'string') {
-                return { content: [{ type: "text", text: "Error: Query string required." }] };
-            }
+            const schema = z.object({
+                query: z.string().min(1),
+                limit: z.number().int().min(1).max(20).default(3),
+                source: z.string().optional(),
+                sourceType: z.enum(SOURCE_TYPES).optional(),
+                minScore: z.number().min(0).max(1).optional(),
+            });
+            const input = schema.parse(args || {});
 
-            const results = await ragSystem.search(args.query);
+            const results = await ragSystem.search(input.query, input);
+            if (results.length === 0) {
+                return { content: [{ type: "text", text: "No matching documentation found." }] };
+            }
 
-            const contextText = results.map((r: any) =>
-                `--- SOURCE: ${path.basename(r.source)} ---\n${r.text}\n`
-            ).join('\n');
+            const contextText = results.map(r => {
+                const lines = r.startLine ? `, lines ${r.startLine}-${r.endLine}` : '';
+                const section = r.headingPath ? `\nSECTION: ${r.headingPath}` : '';
+                const type = r.sourceType && r.sourceType !== 'markdown' ? `, ${r.sourceType}` : '';
+                const relevance = r.relevance !== undefined ? `, relevance ${r.relevance.toFixed(2)}` : '';
+                return `--- SOURCE: ${citationUri(r)}${lines}${type} (score ${r.score.toFixed(2)}${relevance}) ---${section}\n${r.text}\n`;
+            }).join('\n');
 
             return { content: [{ type: "text", text: contextText }] };
         }
     },
+    search_app_metadata: {
+        name: "search_app_metadata",
+        description: "Searches the live application's own metadata by meaning and by name: entities (labels and folder paths), fields (names, labels, types, options, relationship targets), actions and, if indexed, script bodies. Use it for questions like 'which entity stores invoice lines' or 'where is the field that tracks approval status'. The index is built on first use and refreshed automatically after metadata changes made through this server.",
+        inputSchema: {
+            type: "object",
+            properties: {
+                environment: environmentProperty,
+                query: { type: "string", description: "What to look for, in plain words or by name." },
+                limit: { type: "number", description: "Maximum number of hits (1-50).", default: 10 },
+                kind: { type: "string", enum: [...APP_METADATA_KINDS], description: "Optional. Only return this kind of metadata." },
+                entity: { type: "string", description: "Optional. Only return hits of this entity (name)." },
+                minScore: { type: "number", description: "Optional. Drop hits whose relevance (similarity of query and hit embeddings, 0-1) is below this." },
+            },
+            required: ["query"],
+        },
+        execute: async (args) => {
+            const { builderClient, environment } = getClients(args?.environment);
+            const schema = z.object({
+                query: z.string().min(1),
+                limit: z.number().int().min(1).max(50).default(10),
+                kind: z.enum(APP_METADATA_KINDS).optional(),
+                entity: z.string().optional(),
+                minScore: z.number().min(0).max(1).optional(),
+            });
+            const input = schema.parse(args || {});
+
+            const hits = await searchAppMetadata(environment, builderClient, input.query, input);
+            return {
+                content: [{ type: "text", text: renderAppMetadataHits(hits) }],
+            };
+        }
+    },
+    refresh_app_metadata_index: {
+        name: "refresh_app_metadata_index",
+        description: "Updates the semantic index search_app_metadata uses, re-embedding only entities whose metadata changed. Use it after changing the app outside this server, with 'includeScripts' to also index script bodies (remembered for later refreshes), or 'full' to rebuild from scratch.",
+        inputSchema: {
+            type: "object",
+            properties: {
+                environment: environmentProperty,
+                includeScripts: { type: "boolean", description: "Optional. Index script bodies (actions, listeners, calculated values...) too. Keeps the previous choice when omitted." },
+                full: { type: "boolean", description: "Rebuild the whole index.", default: false },
+            },
+        },
+        execute: async (args) => {
+            const { builderClient, environment } = getClients(args?.environment);
+            const schema = z.object({
+                includeScripts: z.boolean().optional(),
+                full: z.boolean().default(false),
+            });
+            const input = schema.parse(args || {});
+
+            // Re-read the metadata from Slingr, since the point is to catch changes made elsewhere
+            invalidateMetadataCache(environment);
+            const summary = await refreshAppMetadataIndex(environment, builderClient, input);
+            return {
+                content: [{ type: "text", text: renderAppIndexSummary(summary) }],
+            };
+        }
+    },
     get_entity: {
         name: "get_entity",
         description: "Gets the metadata of a specific entity. By default, it returns a simplified version to save tokens.",
         inputSchema: {
             type: "object",
             properties: {
+                environment: environmentProperty,
                 entityId: { type: "string", description: "The ID or name of the entity." },
                 verbose: { type: "boolean", description: "If true, returns the full metadata including permissions and UI details.", default: false }
             },
             required: ["entityId"],
         },
         execute: async (args) => {
-            const response = await builderClient.get(`/entities/${args.entityId}`);
-            let data = response.data;
+            const { builderClient } = getClients(args?.environment);
+            let data = await fetchEntityMetadata(builderClient, args.entityId);
             if (!args.verbose) {
                 data = {
                     id: data.id,
@@ -550,52 +1301,248 @@ export const tools: Record<string, ToolDefinition> = {
             };
         }
     },
+    list_field_types: {
+        name: "list_field_types",
+        description: "Lists the field types create_field and schema specs support, with the type-specific rules each one accepts.",
+        inputSchema: { type: "object", properties: {} },
+        execute: async () => {
+            return {
+                content: [{ type: "text", text: describeFieldTypes().map(line => `- ${line}`).join('\n') }],
+            };
+        }
+    },
     create_field: {
         name: "create_field",
-        description: "Creates a new field in a specific entity.",
+        description: "Creates a new field in a specific entity. Supports CHOICE options, RELATIONSHIP targets (by entity name or ID), default values, uniqueness, indexing and type-specific rules (see list_field_types). The definition is validated before anything is sent.",
+        access: "write",
+        supportsDryRun: true,
         inputSchema: {
             type: "object",
             properties: {
-                entityId: { type: "string", description: "The ID of the entity." },
-                name: { type: "string", description: "The internal name of the field." },
+                environment: environmentProperty,
+                entityId: { type: "string", description: "The ID or name of the entity." },
+                name: { type: "string", description: "The internal name of the field (camelCase)." },
                 label: { type: "string", description: "The human-readable label." },
-                type: { type: "string", description: "The type of the field (e.g., text, integer, date, etc.)." },
+                type: { type: "string", enum: Object.keys(FIELD_TYPES), description: "The type of the field." },
                 multiplicity: { type: "string", enum: ["ONE", "MANY"], description: "The multiplicity of the field.", default: "ONE" },
                 required: { type: "boolean", description: "Whether the field is required.", default: false },
+                defaultValue: { description: "Optional. Default value, checked against the field type (and options for CHOICE)." },
+                unique: { type: "boolean", description: "Optional. Whether values must be unique across records." },
+                indexed: { type: "boolean", description: "Optional. Whether the field is indexed for faster filtering and sorting." },
+                options: { type: "array", items: {}, description: "CHOICE only. Option names, or { name, label } objects." },
+                relatedEntity: { type: "string", description: "RELATIONSHIP only. Name or ID of the related entity." },
+                rules: { type: "object", description: "Optional. Type-specific rules, e.g. { maxLength: 80 } for TEXT or { minValue: 0, numberOfDecimals: 2 } for DECIMAL. See list_field_types." },
+                dryRun: { type: "boolean", description: "If true, validates the definition and returns the payload without creating the field.", default: false },
             },
             required: ["entityId", "name", "label", "type"],
         },
+        // A relationship also exposes the related entity, so the allowlist must cover both
+        targetEntities: (args) => [args?.entityId, args?.relatedEntity].filter((e): e is string => typeof e === 'string'),
         execute: async (args) => {
-            const payload = {
-                name: args.name,
-                label: { defaultValue: args.label, translation: { en: args.label } },
-                type: args.type,
-                multiplicity: args.multiplicity || "ONE",
-                required: args.required || false
+            const { builderClient } = getClients(args?.environment);
+            const schema = z.object({
+                entityId: z.string(),
+                name: z.string(),
+                label: z.string(),
+                type: z.string().transform(t => t.toUpperCase()),
+                multiplicity: z.enum(["ONE", "MANY"]).default("ONE"),
+                required: z.boolean().default(false),
+                defaultValue: z.any().optional(),
+                unique: z.boolean().optional(),
+                indexed: z.boolean().optional(),
+                options: z.array(choiceOptionSchema).optional(),
+                relatedEntity: z.string().optional(),
+                rules: z.record(z.any()).optional(),
+                dryRun: z.boolean().default(false),
+            });
+            const input = schema.parse(args || {});
+
+            const { relatedEntity, entityId, dryRun, ...definition } = input;
+            const entity = await resolveEntity(builderClient, entityId);
+            const field: FieldDefinition = {
+                ...definition,
+                relatedEntityId: relatedEntity ? (await resolveEntity(builderClient, relatedEntity)).id : undefined,
             };
-            const response = await builderClient.post(`/entities/${args.entityId}/fields`, payload);
+            const errors = validateFieldDefinition(field);
+            if (errors.length > 0) {
+                return {
+                    content: [{ type: "text", text: `Invalid field definition, nothing was sent to Slingr:\n${errors.map(e => `- ${e}`).join('\n')}` }],
+                    isError: true,
+                };
+            }
+
+            const payload = buildFieldPayload(field);
+            if (dryRun) {
+                return {
+                    content: [{ type: "text", text: `Dry run, nothing was created. Payload for POST /entities/${entity.id}/fields:\n${JSON.stringify(payload, null, 2)}` }],
+                };
+            }
+            const response = await builderClient.post(`/entities/${entity.id}/fields`, payload);
             return {
                 content: [{ type: "text", text: `Field created! ID: ${response.data.id}` }],
             };
         }
     },
+    update_field: {
+        name: "update_field",
+        description: "Updates a field of an entity: label, required rule, multiplicity, default value, uniqueness, indexing, CHOICE options or type-specific rules. Only the settings passed change. The field type and relationship target can't be changed. Use dryRun to see the before/after.",
+        access: "write",
+        supportsDryRun: true,
+        inputSchema: {
+            type: "object",
+            properties: {
+                environment: environmentProperty,
+                entityId: { type: "string", description: "The ID or name of the entity." },
+                field: { type: "string", description: "The ID or name of the field." },
+                label: { type: "string", description: "Optional. New label." },
+                required: { type: "boolean", description: "Optional. Whether the field is required." },
+                multiplicity: { type: "string", enum: ["ONE", "MANY"], description: "Optional. New multiplicity." },
+                defaultValue: { description: "Optional. New default value." },
+                unique: { type: "boolean", description: "Optional. Whether values must be unique." },
+                indexed: { type: "boolean", description: "Optional. Whether the field is indexed." },
+                options: { type: "array", items: {}, description: "CHOICE only. The full new list of options (names or { name, label })." },
+                rules: { type: "object", description: "Optional. Type-specific rules to set (merged with the current ones). See list_field_types." },
+                dryRun: { type: "boolean", description: "If true, only returns the before/after of the field.", default: false },
+            },
+            required: ["entityId", "field"],
+        },
+        // Relationship rules name their target in `entityId`; check it even though validation rejects it
+        targetEntities: (args) => [args?.entityId, args?.rules?.entityId].filter((e): e is string => typeof e === 'string'),
+        execute: async (args) => {
+            const { builderClient } = getClients(args?.environment);
+            const plan = await planFieldUpdate(args);
+            const fieldLabel = `${plan.entity.name}.${plan.live.name}`;
+
+            if (plan.errors.length > 0) {
+                return {
+                    content: [{ type: "text", text: `Invalid update for '${fieldLabel}', nothing was sent to Slingr:\n${plan.errors.map(e => `- ${e}`).join('\n')}` }],
+                    isError: true,
+                };
+            }
+            if (plan.diff.length === 0) {
+                return { content: [{ type: "text", text: `Field '${fieldLabel}' already has these settings, nothing to update.` }] };
+            }
+            if (plan.dryRun) {
+                return {
+                    content: [{ type: "text", text: `Dry run, nothing was changed. '${fieldLabel}':\n${plan.diff.map(d => `- ${d}`).join('\n')}` }],
+                };
+            }
+
+            await builderClient.put(`/entities/${plan.entity.id}/fields/${plan.live.id}`, buildFieldPayload(plan.after));
+            return {
+                content: [{ type: "text", text: `Field '${fieldLabel}' updated:\n${plan.diff.map(d => `- ${d}`).join('\n')}` }],
+            };
+        }
+    },
+    delete_field: {
+        name: "delete_field",
+        description: "Deletes a field from an entity, dropping its values in every record. The preview shows how many records have a value in it.",
+        access: "destructive",
+        inputSchema: {
+            type: "object",
+            properties: {
+                environment: environmentProperty,
+                entityId: { type: "string", description: "The ID or name of the entity." },
+                field: { type: "string", description: "The ID or name of the field." },
+            },
+            required: ["entityId", "field"],
+        },
+        preview: async (args) => {
+            const { builderClient, runtimeClient } = getClients(args?.environment);
+            const entity = await resolveEntity(builderClient, args.entityId);
+            const field = resolveField(await fetchEntityMetadata(builderClient, entity.id), args.field);
+            return renderFieldImpact(await assessFieldImpact(runtimeClient, entity.name, field));
+        },
+        execute: async (args) => {
+            const { builderClient } = getClients(args?.environment);
+            const schema = z.object({
+                entityId: z.string(),
+                field: z.string(),
+            });
+            const input = schema.parse(args || {});
+
+            const entity = await resolveEntity(builderClient, input.entityId);
+            const field = resolveField(await fetchEntityMetadata(builderClient, entity.id), input.field);
+            await builderClient.delete(`/entities/${entity.id}/fields/${field.id}`);
+            return {
+                content: [{ type: "text", text: `Field '${entity.name}.${field.name}' deleted.` }],
+            };
+        }
+    },
     list_records: {
         name: "list_records",
-        description: "Lists records from a specific entity.",
+        description: "Lists records from a specific entity. Supports field filters (including 'relationship.subField' paths), sorting and field projection, all validated against the entity metadata. Set 'all' or 'maxRecords' to follow pagination automatically; a 'nextCursor' is returned when the output is truncated.",
         inputSchema: {
             type: "object",
             properties: {
+                environment: environmentProperty,
                 entityName: { type: "string", description: "The name of the entity." },
-                limit: { type: "number", description: "Maximum number of records to return.", default: 20 },
+                limit: { type: "number", description: "Page size: maximum number of records per request.", default: 20 },
                 offset: { type: "number", description: "Number of records to skip.", default: 0 },
+                ...recordQueryProperties,
+                all: { type: "boolean", description: "Follow pagination and return every matching record, up to maxRecords (default 500).", default: false },
+                maxRecords: { type: "number", description: "Optional. Follow pagination until this many records are collected." },
+                cursor: { type: "string", description: "Optional. 'nextCursor' from a previous truncated call, to continue where it stopped." },
             },
             required: ["entityName"],
         },
         execute: async (args) => {
-            const { entityName, limit = 20, offset = 0 } = args;
-            const response = await runtimeClient.get(`/data/${entityName}?_size=${limit}&_offset=${offset}`);
+            const { builderClient, runtimeClient } = getClients(args?.environment);
+            const schema = recordQuerySchema.extend({
+                entityName: z.string(),
+                limit: z.number().int().positive().default(20),
+                offset: z.number().int().min(0).default(0),
+                all: z.boolean().default(false),
+                maxRecords: z.number().int().positive().optional(),
+                cursor: z.string().optional(),
+            });
+            const input = schema.parse(args || {});
+
+            if (input.filters?.length || input.sortField || input.fields?.length) {
+                const errors = await validateRecordQuery(builderClient, input.entityName, input);
+                if (errors.length > 0) {
+                    return {
+                        content: [{ type: "text", text: `Invalid query for '${input.entityName}':\n${errors.map(e => `- ${e}`).join('\n')}` }],
+                        isError: true,
+                    };
+                }
+            }
+
+            const params = buildRecordQueryParams(input);
+            const startOffset = input.cursor ? decodeCursor(input.cursor) : input.offset;
+
+            if (!input.all && !input.maxRecords && !input.cursor) {
+                params.set('_size', String(input.limit));
+                params.set('_offset', String(startOffset));
+                const response = await runtimeClient.get(`/data/${input.entityName}?${params.toString()}`);
+                return {
+                    content: [{ type: "text", text: JSON.stringify(response.data, null, 2) }],
+                };
+            }
+
+            const maxRecords = input.maxRecords ?? 500;
+            const pageSize = Math.min(Math.max(input.limit, 100), maxRecords);
+            const items: any[] = [];
+            let total: number | undefined;
+            let nextOffset = startOffset;
+            let exhausted = false;
+
+            for await (const page of iterateRecordPages(runtimeClient, input.entityName, params, pageSize, startOffset)) {
+                total = page.total;
+                const room = maxRecords - items.length;
+                items.push(...page.items.slice(0, room));
+                nextOffset = startOffset + items.length;
+                exhausted = page.done && page.items.length <= room;
+                if (items.length >= maxRecords) break;
+            }
+
+            const result: any = { total, offset: startOffset, count: items.length, items };
+            if (!exhausted) {
+                result.truncated = true;
+                result.nextCursor = encodeCursor(nextOffset);
+            }
             return {
-                content: [{ type: "text", text: JSON.stringify(response.data, null, 2) }],
+                content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
             };
         }
     },
@@ -605,6 +1552,7 @@ export const tools: Record<string, ToolDefinition> = {
         inputSchema: {
             type: "object",
             properties: {
+                environment: environmentProperty,
                 entityName: { type: "string", description: "The name of the entity." },
                 recordId: { type: "string", description: "The ID of the record." },
                 fields: { type: "string", description: "Optional. Comma-separated list of fields to return." },
@@ -612,6 +1560,7 @@ export const tools: Record<string, ToolDefinition> = {
             required: ["entityName", "recordId"],
         },
         execute: async (args) => {
+            const { runtimeClient } = getClients(args?.environment);
             const query = args.fields ? `?_fields=${args.fields}` : "";
             const response = await runtimeClient.get(`/data/${args.entityName}/${args.recordId}${query}`);
             return {
@@ -622,34 +1571,178 @@ export const tools: Record<string, ToolDefinition> = {
     create_record: {
         name: "create_record",
         description: "Creates a new record in a specific entity.",
+        access: "write",
         inputSchema: {
             type: "object",
             properties: {
+                environment: environmentProperty,
                 entityName: { type: "string", description: "The name of the entity." },
                 data: { type: "object", description: "The record data." },
+                skipValidation: { type: "boolean", description: "If true, sends the data without checking it against the entity's fields first.", default: false },
             },
             required: ["entityName", "data"],
         },
         execute: async (args) => {
+            const { builderClient, runtimeClient } = getClients(args?.environment);
+            if (!args.skipValidation) {
+                const metadata = await fetchEntityMetadata(builderClient, args.entityName);
+                const errors = validateRecordData(metadata, args.data, 'create');
+                if (errors.length > 0) {
+                    return { content: [{ type: "text", text: renderValidationErrors(args.entityName, errors) }], isError: true };
+                }
+            }
             const response = await runtimeClient.post(`/data/${args.entityName}`, args.data);
             return {
                 content: [{ type: "text", text: `Record created! ID: ${response.data.id}` }],
             };
         }
     },
+    export_records: {
+        name: "export_records",
+        description: "Exports every matching record of an entity to a local file, following pagination and streaming page by page. Supports the same filters, sorting and field selection as list_records. CSV flattens nested and relationship fields into dotted columns (e.g. 'customer.label'); 'excel' is CSV that Excel opens with the right encoding; NDJSON keeps records as-is. Returns only a summary (row count, path, columns), never the data.",
+        inputSchema: {
+            type: "object",
+            properties: {
+                environment: environmentProperty,
+                entityName: { type: "string", description: "The name of the entity." },
+                ...recordQueryProperties,
+                format: { type: "string", enum: ["csv", "ndjson", "excel"], description: "Output format.", default: "csv" },
+                outputFile: { type: "string", description: "Optional. Path of the file to write. Defaults to 'data/exports/<entity>-<timestamp>.<ext>'." },
+                pageSize: { type: "number", description: "Records per request.", default: 200 },
+                maxRecords: { type: "number", description: "Optional. Stop after this many records." },
+            },
+            required: ["entityName"],
+        },
+        execute: async (args) => {
+            const { builderClient, runtimeClient } = getClients(args?.environment);
+            const schema = recordQuerySchema.extend({
+                entityName: z.string(),
+                format: z.enum(["csv", "ndjson", "excel"]).default("csv"),
+                outputFile: z.string().optional(),
+                pageSize: z.number().int().positive().max(1000).default(200),
+                maxRecords: z.number().int().positive().optional(),
+            });
+            const input = schema.parse(args || {});
+
+            if (input.filters?.length || input.sortField || input.fields?.length) {
+                const errors = await validateRecordQuery(builderClient, input.entityName, input);
+                if (errors.length > 0) {
+                    return {
+                        content: [{ type: "text", text: `Invalid query for '${input.entityName}':\n${errors.map(e => `- ${e}`).join('\n')}` }],
+                        isError: true,
+                    };
+                }
+            }
+
+            const extension = input.format === "ndjson" ? "ndjson" : "csv";
+            const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+            const outputFile = path.resolve(input.outputFile || path.join("data", "exports", `${input.entityName}-${timestamp}.${extension}`));
+
+            const summary = await exportRecords(runtimeClient, input.entityName, {
+                query: input,
+                format: input.format,
+                outputFile,
+                pageSize: input.pageSize,
+                maxRecords: input.maxRecords,
+            });
+
+            const columnText = summary.columns
+                ? `\nColumns (${summary.columns.length}): ${summary.columns.join(', ')}`
+                : '';
+            return {
+                content: [{
+                    type: "text",
+                    text: `Exported ${summary.rows} records of '${input.entityName}' to ${summary.outputFile} (${input.format}).${columnText}`
+                }],
+            };
+        }
+    },
+    import_records: {
+        name: "import_records",
+        description: "Bulk-imports records into an entity from a local CSV, JSON or NDJSON file. Maps columns to fields, converts values to the field types, resolves relationship fields by label (or another unique field), and inserts or upserts in batches. Writes a per-row result file (created/updated/failed with the reason) and returns only a summary. Use validateOnly to check the file without writing anything.",
+        access: "write",
+        supportsDryRun: true,
+        dryRunArgument: "validateOnly",
+        inputSchema: {
+            type: "object",
+            properties: {
+                environment: environmentProperty,
+                entityName: { type: "string", description: "The name of the entity." },
+                filePath: { type: "string", description: "Path of the local file to import." },
+                format: { type: "string", enum: ["csv", "json", "ndjson"], description: "Optional. Detected from the file extension when omitted." },
+                mapping: { type: "object", description: "Optional. Column -> field name, e.g. { \"Customer Name\": \"name\" }. Without it, columns matching a field name or label are imported." },
+                relationshipLookups: { type: "object", description: "Optional. Relationship field -> field of the related entity used to find the record, e.g. { \"company\": \"code\" }. Defaults to 'label'." },
+                mode: { type: "string", enum: ["insert", "upsert"], description: "Insert every row, or update the record matching upsertKey when it exists.", default: "insert" },
+                upsertKey: { type: "string", description: "Field that identifies an existing record in upsert mode." },
+                multiValueSeparator: { type: "string", description: "Separator for multi-valued fields in CSV cells.", default: ";" },
+                batchSize: { type: "number", description: "Rows per batch.", default: 50 },
+                concurrency: { type: "number", description: "Parallel requests within a batch.", default: 4 },
+                validateOnly: { type: "boolean", description: "If true, converts, resolves and validates every row without writing anything.", default: false },
+                resultFile: { type: "string", description: "Optional. Where to write the per-row results (CSV). Defaults to '<input>.results.csv'." },
+            },
+            required: ["entityName", "filePath"],
+        },
+        execute: async (args) => {
+            const { builderClient, runtimeClient } = getClients(args?.environment);
+            const schema = z.object({
+                entityName: z.string(),
+                filePath: z.string(),
+                format: z.enum(["csv", "json", "ndjson"]).optional(),
+                mapping: z.record(z.string()).optional(),
+                relationshipLookups: z.record(z.string()).optional(),
+                mode: z.enum(["insert", "upsert"]).default("insert"),
+                upsertKey: z.string().optional(),
+                multiValueSeparator: z.string().default(";"),
+                batchSize: z.number().int().positive().default(50),
+                concurrency: z.number().int().positive().max(16).default(4),
+                validateOnly: z.boolean().default(false),
+                resultFile: z.string().optional(),
+            });
+            const input = schema.parse(args || {});
+
+            const summary = await importRecords(builderClient, runtimeClient, input.entityName, {
+                ...input,
+                filePath: path.resolve(input.filePath),
+            });
+
+            const counts = Object.entries(summary.counts).map(([status, n]) => `${n} ${status}`).join(', ');
+            const failures = summary.results.filter(r => r.status === 'failed' || r.status === 'invalid').slice(0, 10);
+            const failureText = failures.length > 0
+                ? `\n\nFirst problems:\n${failures.map(f => `- row ${f.row}: ${f.reason}`).join('\n')}`
+                : '';
+
+            return {
+                content: [{
+                    type: "text",
+                    text: `Import into '${input.entityName}' finished: ${summary.total} rows (${counts || 'nothing to do'}).\nPer-row results: ${summary.resultFile}${failureText}`
+                }],
+            };
+        }
+    },
     update_record: {
         name: "update_record",
         description: "Updates an existing record.",
+        access: "write",
         inputSchema: {
             type: "object",
             properties: {
+                environment: environmentProperty,
                 entityName: { type: "string", description: "The name of the entity." },
                 recordId: { type: "string", description: "The ID of the record." },
                 data: { type: "object", description: "The updated record data." },
+                skipValidation: { type: "boolean", description: "If true, sends the data without checking it against the entity's fields first.", default: false },
             },
             required: ["entityName", "recordId", "data"],
         },
         execute: async (args) => {
+            const { builderClient, runtimeClient } = getClients(args?.environment);
+            if (!args.skipValidation) {
+                const metadata = await fetchEntityMetadata(builderClient, args.entityName);
+                const errors = validateRecordData(metadata, args.data, 'update');
+                if (errors.length > 0) {
+                    return { content: [{ type: "text", text: renderValidationErrors(args.entityName, errors) }], isError: true };
+                }
+            }
             const response = await runtimeClient.patch(`/data/${args.entityName}/${args.recordId}`, args.data);
             return {
                 content: [{ type: "text", text: `Record ${args.recordId} updated!` }],
@@ -659,15 +1752,23 @@ export const tools: Record<string, ToolDefinition> = {
     delete_record: {
         name: "delete_record",
         description: "Deletes a specific record.",
+        access: "destructive",
         inputSchema: {
             type: "object",
             properties: {
+                environment: environmentProperty,
                 entityName: { type: "string", description: "The name of the entity." },
                 recordId: { type: "string", description: "The ID of the record." },
             },
             required: ["entityName", "recordId"],
         },
+        preview: async (args) => {
+            const { runtimeClient } = getClients(args?.environment);
+            const response = await runtimeClient.get(`/data/${args.entityName}/${args.recordId}`);
+            return `Record to delete from '${args.entityName}':\n${JSON.stringify(response.data, null, 2)}`;
+        },
         execute: async (args) => {
+            const { runtimeClient } = getClients(args?.environment);
             await runtimeClient.delete(`/data/${args.entityName}/${args.recordId}`);
             return {
                 content: [{ type: "text", text: `Record ${args.recordId} deleted.` }],
@@ -676,12 +1777,32 @@ export const tools: Record<string, ToolDefinition> = {
     },
     ingest_documentation: {
         name: "ingest_documentation",
-        description: "Ingests the documentation files into the RAG system. This may take a while.",
+        description: "Updates the documentation index in the background and returns right away; follow it with get_ingestion_status. Only files added or changed since the last run are embedded again, and deleted files are removed from the index. Use 'full' to rebuild everything.",
+        inputSchema: {
+            type: "object",
+            properties: {
+                full: { type: "boolean", description: "Re-embed every file instead of only the changed ones.", default: false },
+            },
+        },
+        execute: async (args) => {
+            const input = z.object({ full: z.boolean().default(false) }).parse(args || {});
+            const { job, started } = ragSystem.startIngestion(input);
+            const text = started
+                ? `Documentation ingestion started (${job.full ? 'full' : 'incremental'}). Use get_ingestion_status to follow it.`
+                : `An ingestion is already running.\n\n${renderIngestionJob(job)}`;
+            return {
+                content: [{ type: "text", text }],
+            };
+        }
+    },
+    get_ingestion_status: {
+        name: "get_ingestion_status",
+        description: "Shows the progress of the current or last documentation ingestion, and its added/updated/removed summary once finished.",
         inputSchema: { type: "object", properties: {} },
         execute: async () => {
-            const count = await ragSystem.ingest();
+            const job = ragSystem.getIngestionJob();
             return {
-                content: [{ type: "text", text: `Documentation ingested successfully! ${count} chunks saved.` }],
+                content: [{ type: "text", text: job ? renderIngestionJob(job) : "No documentation ingestion has run since the server started." }],
             };
         }
     }
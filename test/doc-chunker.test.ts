@@ -0,0 +1,99 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { chunkMarkdown, estimateTokens, extractMarkdownSection, slugify, type ChunkOptions } from "../src/doc-chunker.js";
+
+const options: ChunkOptions = { maxTokens: 60, overlapTokens: 15, minTokens: 10 };
+
+function paragraph(word: string, count: number): string {
+    return Array.from({ length: count }, () => word).join(' ');
+}
+
+describe("slugify", () => {
+    it("builds GitHub-style anchors", () => {
+        assert.equal(slugify("Data `REST` APIs (v2)"), "data-rest-apis-v2");
+        assert.equal(slugify("Qué es Slingr?"), "qué-es-slingr");
+    });
+});
+
+describe("chunkMarkdown", () => {
+    it("keeps each chunk within one section and records its headings", () => {
+        const markdown = [
+            '# Guide',
+            '',
+            paragraph('intro', 20),
+            '',
+            '## Install',
+            '',
+            paragraph('install', 20),
+            '',
+            '## Usage',
+            '',
+            paragraph('usage', 20),
+        ].join('\n');
+        const chunks = chunkMarkdown(markdown, options);
+        assert.deepEqual(chunks.map(c => c.headings), [['Guide'], ['Guide', 'Install'], ['Guide', 'Usage']]);
+        assert.deepEqual(chunks.map(c => c.anchor), ['guide', 'install', 'usage']);
+        assert.deepEqual(chunks.map(c => [c.startLine, c.endLine]), [[1, 3], [5, 7], [9, 11]]);
+        assert.ok(chunks.every(c => !c.text.includes('usage') || c.anchor === 'usage'));
+    });
+
+    it("merges a short intro into the subsection that follows it", () => {
+        const markdown = ['# Guide', 'Short.', '## Details', paragraph('detail', 20)].join('\n');
+        const chunks = chunkMarkdown(markdown, options);
+        assert.equal(chunks.length, 1);
+        assert.match(chunks[0].text, /Short\.[\s\S]*detail/);
+        assert.deepEqual(chunks[0].headings, ['Guide', 'Details']);
+    });
+
+    it("splits long sections under the token limit, with overlap", () => {
+        const paragraphs = Array.from({ length: 6 }, (_, i) => paragraph(`p${i}`, 20));
+        const markdown = ['# Long', '', ...paragraphs.flatMap(p => [p, ''])].join('\n');
+        const chunks = chunkMarkdown(markdown, options);
+        assert.ok(chunks.length > 1);
+        // Blocks are sized without the blank lines that join them, hence the small margin
+        assert.ok(chunks.every(c => estimateTokens(c.text) <= options.maxTokens + 2));
+        // The last paragraph of a chunk opens the next one
+        for (let i = 1; i < chunks.length; i++) {
+            const lastParagraph = chunks[i - 1].text.trim().split('\n').at(-1)!;
+            assert.ok(chunks[i].text.includes(lastParagraph));
+        }
+        paragraphs.forEach(p => assert.ok(chunks.some(c => c.text.includes(p))));
+    });
+
+    it("keeps code fences whole and ignores headings inside them", () => {
+        const code = ['```bash', '# not a heading', 'npm install', '```'];
+        const markdown = ['# Setup', paragraph('setup', 40), '', ...code, '', paragraph('after', 10)].join('\n');
+        const chunks = chunkMarkdown(markdown, options);
+        assert.ok(chunks.every(c => c.anchor === 'setup'));
+        assert.ok(chunks.some(c => c.text.includes(code.join('\n'))));
+    });
+
+    it("suffixes repeated headings like GitHub", () => {
+        const markdown = ['## Example', paragraph('one', 20), '## Example', paragraph('two', 20)].join('\n');
+        assert.deepEqual(chunkMarkdown(markdown, options).map(c => c.anchor), ['example', 'example-1']);
+    });
+});
+
+describe("extractMarkdownSection", () => {
+    const markdown = [
+        '# Guide',
+        'Intro.',
+        '## Install',
+        'Run the installer.',
+        '```',
+        '# still install',
+        '```',
+        '### Options',
+        'Flags.',
+        '## Usage',
+        'Use it.',
+    ].join('\n');
+
+    it("returns the section with its subsections, down to the next heading of its level", () => {
+        assert.equal(extractMarkdownSection(markdown, 'install'), markdown.split('\n').slice(2, 9).join('\n'));
+    });
+
+    it("returns undefined for an unknown anchor", () => {
+        assert.equal(extractMarkdownSection(markdown, 'missing'), undefined);
+    });
+});
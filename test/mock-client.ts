@@ -0,0 +1,23 @@
+import axios, { type AxiosInstance } from "axios";
+
+export interface MockClient {
+    client: AxiosInstance;
+    /** URLs requested so far, in order. */
+    requests: string[];
+}
+
+/**
+ * An axios instance that answers every request with `respond(url)` instead of going to
+ * the network. Throwing from `respond` fails the request.
+ */
+export function mockClient(respond: (url: string) => any): MockClient {
+    const requests: string[] = [];
+    const client = axios.create({
+        adapter: async (config) => {
+            const url = config.url || '';
+            requests.push(url);
+            return { data: respond(url), status: 200, statusText: 'OK', headers: {}, config };
+        },
+    });
+    return { client, requests };
+}
@@ -0,0 +1,143 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { buildRecordQueryParams, decodeCursor, encodeCursor, iterateRecordPages, validateRecordQuery } from "../src/record-query.js";
+import { mockClient } from "./mock-client.js";
+
+const ordersMetadata = {
+    id: 'e1',
+    name: 'orders',
+    fields: [
+        { name: 'number', type: 'INTEGER' },
+        { name: 'status', type: 'CHOICE' },
+        { name: 'notes', type: 'LONG_TEXT' },
+        { name: 'customer', type: 'RELATIONSHIP', typeRules: { entityId: 'e2' } },
+    ],
+};
+const customersMetadata = { id: 'e2', name: 'customers', fields: [{ name: 'name', type: 'TEXT' }] };
+
+function metadataClient() {
+    return mockClient(url => {
+        if (url === '/entities/orders') return ordersMetadata;
+        if (url === '/entities/e2') return customersMetadata;
+        throw new Error(`Unexpected request ${url}`);
+    });
+}
+
+// Serves `total` records, never more than `cap` per page whatever `_size` asks for
+function recordsClient(total: number, cap: number, reportTotal = true) {
+    return mockClient(url => {
+        const query = new URLSearchParams(url.split('?')[1]);
+        const offset = Number(query.get('_offset'));
+        const size = Math.min(Number(query.get('_size')), cap);
+        const items = Array.from({ length: Math.max(0, Math.min(size, total - offset)) }, (_, i) => ({ id: String(offset + i) }));
+        return reportTotal ? { total, items } : { items };
+    });
+}
+
+async function collect(pages: AsyncIterable<{ items: any[], nextOffset: number, done: boolean }>) {
+    const result = [];
+    for await (const page of pages) result.push(page);
+    return result;
+}
+
+describe("buildRecordQueryParams", () => {
+    it("translates operators to the runtime query syntax", () => {
+        const params = buildRecordQueryParams({
+            filters: [
+                { field: 'status', operator: 'equals', value: 'open' },
+                { field: 'number', operator: 'greater', value: 10 },
+                { field: 'number', operator: 'between', values: [1, 5] },
+                { field: 'status', operator: 'in', values: ['open', 'closed'] },
+                { field: 'notes', operator: 'contains', value: 'urgent' },
+                { field: 'customer', operator: 'empty' },
+            ],
+            sortField: 'number',
+            sortType: 'desc',
+            fields: ['number', 'status'],
+        });
+        assert.deepEqual(params.getAll('status'), ['open', 'open|closed']);
+        assert.deepEqual(params.getAll('number'), ['greater(10)', 'between(1,5)']);
+        assert.equal(params.get('notes'), 'like(urgent)');
+        assert.equal(params.get('customer'), 'empty()');
+        assert.equal(params.get('_sortField'), 'number');
+        assert.equal(params.get('_sortType'), 'DESC');
+        assert.equal(params.get('_fields'), 'number,status');
+    });
+
+    it("rejects 'in' values containing the separator", () => {
+        assert.throws(
+            () => buildRecordQueryParams({ filters: [{ field: 'status', operator: 'in', values: ['a|b', 'c'] }] }),
+            /'in' values can't contain '\|'/,
+        );
+    });
+});
+
+describe("validateRecordQuery", () => {
+    it("accepts a valid query, including relationship paths", async () => {
+        const { client } = metadataClient();
+        const errors = await validateRecordQuery(client, 'orders', {
+            filters: [{ field: 'customer.name', operator: 'contains', value: 'Acme' }],
+            sortField: 'number',
+            fields: ['id', 'status'],
+        });
+        assert.deepEqual(errors, []);
+    });
+
+    it("reports unknown fields, bad operands and unsupported operators", async () => {
+        const { client } = metadataClient();
+        const errors = await validateRecordQuery(client, 'orders', {
+            filters: [
+                { field: 'numbr', operator: 'equals', value: 1 },
+                { field: 'number', operator: 'between', values: [1] },
+                { field: 'status', operator: 'in', values: ['a|b'] },
+                { field: 'number', operator: 'contains', value: '1' },
+                { field: 'notes.text', operator: 'equals', value: 'x' },
+            ],
+        });
+        assert.equal(errors.length, 5);
+        assert.match(errors[0], /'numbr' does not exist.*'number'/);
+        assert.match(errors[1], /'between' needs exactly two values/);
+        assert.match(errors[2], /can't contain '\|'/);
+        assert.match(errors[3], /'contains' is not supported for INTEGER/);
+        assert.match(errors[4], /'notes' is not a relationship field/);
+    });
+});
+
+describe("iterateRecordPages", () => {
+    it("keeps paging when the API caps the page size", async () => {
+        const { client, requests } = recordsClient(120, 50);
+        const pages = await collect(iterateRecordPages(client, 'orders', new URLSearchParams(), 100));
+        assert.deepEqual(pages.map(p => p.items.length), [50, 50, 20]);
+        assert.deepEqual(pages.map(p => p.nextOffset), [50, 100, 120]);
+        assert.deepEqual(pages.map(p => p.done), [false, false, true]);
+        assert.equal(requests.length, 3);
+    });
+
+    it("stops on an empty page when no total is reported", async () => {
+        const { client, requests } = recordsClient(70, 50, false);
+        const pages = await collect(iterateRecordPages(client, 'orders', new URLSearchParams(), 100));
+        assert.deepEqual(pages.map(p => p.items.length), [50, 20, 0]);
+        assert.equal(pages.at(-1)!.done, true);
+        assert.equal(requests.length, 3);
+    });
+
+    it("starts at the given offset and keeps the query parameters", async () => {
+        const { client, requests } = recordsClient(30, 50);
+        const params = new URLSearchParams({ status: 'open' });
+        const pages = await collect(iterateRecordPages(client, 'orders', params, 10, 25));
+        assert.deepEqual(pages.map(p => p.items.map(i => i.id)), [['25', '26', '27', '28', '29']]);
+        assert.equal(pages[0].done, true);
+        assert.equal(requests[0], '/data/orders?status=open&_size=10&_offset=25');
+    });
+});
+
+describe("cursors", () => {
+    it("round-trips the offset", () => {
+        assert.equal(decodeCursor(encodeCursor(150)), 150);
+    });
+
+    it("rejects malformed cursors", () => {
+        assert.throws(() => decodeCursor('not-a-cursor'), /Invalid cursor/);
+        assert.throws(() => decodeCursor(encodeCursor(-1)), /Invalid cursor/);
+    });
+});
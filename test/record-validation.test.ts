@@ -0,0 +1,57 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { validateRecordData } from "../src/record-validation.js";
+
+const metadata = {
+    fields: [
+        { name: 'number', type: 'INTEGER', generalRules: { required: { type: 'ALWAYS' } } },
+        { name: 'amount', type: 'MONEY' },
+        { name: 'shippedAt', type: 'DATE_TIME' },
+        { name: 'opensAt', type: 'TIME' },
+        { name: 'timezone', type: 'TIMEZONE' },
+        { name: 'notes', type: 'LONG_TEXT' },
+        { name: 'status', type: 'CHOICE', typeRules: { values: [{ name: 'open' }, { name: 'closed' }] } },
+        { name: 'tags', type: 'TEXT', multiplicity: 'MANY' },
+    ],
+};
+
+describe("validateRecordData", () => {
+    it("accepts values that fit their types", () => {
+        const errors = validateRecordData(metadata, {
+            number: 3,
+            amount: 9.5,
+            shippedAt: '2024-05-01T10:00:00Z',
+            opensAt: '09:30',
+            timezone: 'Europe/Madrid',
+            notes: 'Fragile',
+            status: 'open',
+            tags: ['a', 'b'],
+        }, 'create');
+        assert.deepEqual(errors, []);
+    });
+
+    it("reports values that don't fit their types", () => {
+        const errors = validateRecordData(metadata, {
+            number: 1.5,
+            amount: '10',
+            shippedAt: 'soon',
+            opensAt: 'morning',
+            notes: 42,
+            status: 'opne',
+            tags: 'a',
+        }, 'create');
+        assert.deepEqual(errors.map(e => e.split(':')[0]), ['number', 'amount', 'shippedAt', 'opensAt', 'notes', 'status', 'tags']);
+        assert.match(errors[3], /expected a time/);
+        assert.match(errors[5], /Did you mean 'open'/);
+    });
+
+    it("only matches exact type names", () => {
+        // TIMEZONE contains TIME but is not a date, so any string passes through to Slingr
+        assert.deepEqual(validateRecordData(metadata, { number: 1, timezone: 'UTC' }, 'create'), []);
+    });
+
+    it("checks required fields on create only", () => {
+        assert.match(validateRecordData(metadata, { notes: 'x' }, 'create').join('\n'), /number/);
+        assert.deepEqual(validateRecordData(metadata, { notes: 'x' }, 'update'), []);
+    });
+});
@@ -0,0 +1,114 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { planSchema, renderSchemaPlan, schemaSpecSchema } from "../src/schema-spec.js";
+import { mockClient } from "./mock-client.js";
+
+const liveEntities = [
+    { entity: { id: 'e1', name: 'orders', label: 'Orders' }, folderPath: '/sales' },
+    { entity: { id: 'e2', name: 'customers', label: 'Customers' }, folderPath: '/sales' },
+];
+
+const ordersMetadata = {
+    id: 'e1',
+    name: 'orders',
+    label: 'Orders',
+    fields: [
+        { id: 'f1', name: 'number', label: 'Number', type: 'INTEGER', multiplicity: 'ONE', generalRules: { required: { type: 'ALWAYS' } } },
+        { id: 'f2', name: 'notes', label: 'Notes', type: 'LONG_TEXT', multiplicity: 'ONE', generalRules: { required: { type: 'CONDITION' } } },
+        { id: 'f3', name: 'customer', label: 'Customer', type: 'RELATIONSHIP', multiplicity: 'ONE', typeRules: { entityId: 'e2' } },
+        { id: 'f4', name: 'legacyCode', label: 'Legacy code', type: 'TEXT', multiplicity: 'ONE' },
+    ],
+};
+
+function builderClient() {
+    return mockClient(url => {
+        if (url.startsWith('/folders?')) return { items: liveEntities };
+        if (url === '/entities/e1') return ordersMetadata;
+        throw new Error(`Unexpected request ${url}`);
+    });
+}
+
+function plan(entities: any[]) {
+    return planSchema(builderClient().client, schemaSpecSchema.parse({ entities }));
+}
+
+describe("schemaSpecSchema", () => {
+    it("requires the related entity of relationship fields", () => {
+        const result = schemaSpecSchema.safeParse({ entities: [{ name: 'orders', fields: [{ name: 'customer', type: 'relationship' }] }] });
+        assert.equal(result.success, false);
+        assert.match(result.error!.issues[0].message, /needs the related 'entity'/);
+    });
+
+    it("rejects duplicated names", () => {
+        const result = schemaSpecSchema.safeParse({ entities: [{ name: 'orders' }, { name: 'orders' }] });
+        assert.equal(result.success, false);
+        assert.match(result.error!.issues[0].message, /declared twice/);
+    });
+});
+
+describe("planSchema", () => {
+    it("plans missing entities and fields as creations", async () => {
+        const result = await plan([
+            { name: 'invoices', fields: [{ name: 'total', type: 'money' }] },
+            { name: 'orders', fields: [{ name: 'shippedAt', type: 'DATE_TIME' }] },
+        ]);
+        assert.deepEqual(result.changes.map(c => c.action), ['createEntity', 'createField', 'createField']);
+        assert.equal(result.changes[2].action === 'createField' && result.changes[2].entityId, 'e1');
+    });
+
+    it("leaves fields alone when the spec matches and lists the ones it doesn't mention", async () => {
+        const result = await plan([{
+            name: 'orders',
+            fields: [
+                { name: 'number', type: 'INTEGER', required: true },
+                { name: 'customer', type: 'RELATIONSHIP', entity: 'customers' },
+            ],
+        }]);
+        assert.deepEqual(result.changes, []);
+        assert.deepEqual(result.unchanged, ['orders.number', 'orders.customer']);
+        assert.deepEqual(result.unmanaged, ['orders.notes', 'orders.legacyCode']);
+    });
+
+    it("only compares required when the spec states it", async () => {
+        const omitted = await plan([{ name: 'orders', fields: [{ name: 'number', type: 'INTEGER' }] }]);
+        assert.deepEqual(omitted.changes, []);
+
+        const stated = await plan([{ name: 'orders', fields: [{ name: 'number', type: 'INTEGER', required: false }] }]);
+        assert.equal(stated.changes.length, 1);
+        const change = stated.changes[0];
+        assert.equal(change.action, 'updateField');
+        assert.deepEqual(change.action === 'updateField' && change.changes, ['required: true → false']);
+    });
+
+    it("keeps conditional required rules unless the spec overrides them, which is a conflict", async () => {
+        const kept = await plan([{ name: 'orders', fields: [{ name: 'notes', type: 'LONG_TEXT', label: 'Internal notes' }] }]);
+        assert.deepEqual(kept.changes.map(c => c.action === 'updateField' && c.changes), [['label: "Notes" → "Internal notes"']]);
+
+        const overridden = await plan([{ name: 'orders', fields: [{ name: 'notes', type: 'LONG_TEXT', required: true }] }]);
+        assert.equal(overridden.changes[0].action, 'conflict');
+        assert.match(overridden.changes[0].action === 'conflict' ? overridden.changes[0].reason : '', /CONDITION required rule/);
+    });
+
+    it("reports type and relationship target changes as conflicts", async () => {
+        const result = await plan([
+            { name: 'invoices' },
+            {
+                name: 'orders',
+                fields: [
+                    { name: 'number', type: 'DECIMAL' },
+                    { name: 'customer', type: 'RELATIONSHIP', entity: 'invoices' },
+                ],
+            },
+        ]);
+        const conflicts = result.changes.filter(c => c.action === 'conflict');
+        assert.deepEqual(conflicts.map(c => c.action === 'conflict' && c.field), ['number', 'customer']);
+        assert.match(renderSchemaPlan(result), /0 to change, 0 unchanged, 2 conflicts/);
+    });
+
+    it("fails when a relationship target exists neither in the spec nor in the app", async () => {
+        await assert.rejects(
+            plan([{ name: 'orders', fields: [{ name: 'supplier', type: 'RELATIONSHIP', entity: 'suppliers' }] }]),
+            /neither in the spec nor in the app: orders.supplier → suppliers/,
+        );
+    });
+});